@@ -0,0 +1,339 @@
+import { isPlainObject } from './diff';
+import {
+  AutoSaveConflictError,
+  AutoSaveHttpError,
+  AutoSaveValidationError,
+} from './errors';
+import { createJsonPatch } from './patch';
+import { toValidationErrors } from './validators';
+import type { AutoSaveContext, AutoSaveResult } from './index';
+
+/**
+ * What an adapter sends:
+ * - `snapshot`: the whole filtered form
+ * - `diff`: the JSON Merge Patch of changed fields
+ * - `patch`: a JSON Patch (RFC 6902), `context.patch` if the `jsonPatch` option is set
+ * - a function building the body from the save context
+ */
+export type AutoSavePayload = 'snapshot' | 'diff' | 'patch' | ((context: AutoSaveContext) => unknown);
+
+type ContextValue<T> = T | ((context: AutoSaveContext) => T);
+
+const resolve = <T>(value: ContextValue<T>, context: AutoSaveContext): T =>
+  typeof value === 'function' ? (value as (context: AutoSaveContext) => T)(context) : value;
+
+const getPayload = (payload: AutoSavePayload, context: AutoSaveContext): unknown => {
+  switch (payload) {
+    case 'snapshot':
+      return context.snapshot;
+    case 'diff':
+      return context.diff;
+    case 'patch':
+      return context.patch ?? createJsonPatch(context.previous, context.snapshot);
+    default:
+      return payload(context);
+  }
+};
+
+const getContentType = (payload: AutoSavePayload) =>
+  payload === 'patch' ? 'application/json-patch+json' : 'application/json';
+
+/**
+ * Sends the save version as `If-Match`, so the server can detect stale writes
+ */
+const getVersionHeaders = (context: AutoSaveContext): Record<string, string> =>
+  context.version != null ? { 'If-Match': String(context.version) } : {};
+
+/**
+ * Turns an unsuccessful response into a conflict (409 / 412), validation (422)
+ * or generic HTTP error
+ */
+const toSaveError = (status: number, data: unknown, headers: Record<string, string>) => {
+  if (status === 409 || status === 412) {
+    return new AutoSaveConflictError(isPlainObject(data) ? data : {}, headers.etag);
+  }
+  if (status === 422) {
+    const body = isPlainObject(data) ? data : {};
+    const errors = toValidationErrors(
+      (isPlainObject(body.errors) ? body.errors : body) as Record<string, string | string[]>
+    );
+    return new AutoSaveValidationError(
+      errors ?? {},
+      typeof body.message === 'string' ? body.message : undefined
+    );
+  }
+  return new AutoSaveHttpError(status, data, headers);
+};
+
+export interface FetchSaverOptions {
+  /**
+   * Endpoint to save to, or a function building it from the save context
+   */
+  url: ContextValue<string>;
+
+  /**
+   * HTTP method (default: 'PATCH')
+   */
+  method?: string;
+
+  /**
+   * Extra request headers, e.g. a CSRF token
+   */
+  headers?: ContextValue<Record<string, string>>;
+
+  /**
+   * What to send (default: 'diff')
+   */
+  payload?: AutoSavePayload;
+
+  /**
+   * Other `fetch` options, e.g. `credentials`
+   */
+  init?: Omit<RequestInit, 'method' | 'headers' | 'body' | 'signal'>;
+
+  /**
+   * `fetch` implementation (default: `globalThis.fetch`)
+   */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Creates an `onSave` handler sending the changes with `fetch`. Passes the abort
+ * signal through, sends `If-Match` with the version and reads the new one from `ETag`.
+ */
+export function fetchSaver(options: FetchSaverOptions) {
+  const { url, method = 'PATCH', headers = {}, payload = 'diff', init } = options;
+
+  return (context: AutoSaveContext): Promise<AutoSaveResult> => {
+    const request = options.fetch ?? globalThis.fetch;
+
+    return request(resolve(url, context), {
+      ...init,
+      method,
+      headers: {
+        'Content-Type': getContentType(payload),
+        Accept: 'application/json',
+        ...getVersionHeaders(context),
+        ...resolve(headers, context),
+      },
+      body: JSON.stringify(getPayload(payload, context)),
+      signal: context.signal,
+    }).then((response) =>
+      response.text().then((text) => {
+        let data: unknown = text;
+        try {
+          data = text ? JSON.parse(text) : null;
+        } catch {
+          // Not JSON, keep the text
+        }
+
+        const responseHeaders: Record<string, string> = {};
+        response.headers.forEach((value, name) => {
+          responseHeaders[name.toLowerCase()] = value;
+        });
+
+        if (!response.ok) throw toSaveError(response.status, data, responseHeaders);
+        return { version: responseHeaders.etag };
+      })
+    );
+  };
+}
+
+/**
+ * Minimal shape of an Axios instance
+ */
+export interface AxiosLike {
+  request: (config: Record<string, unknown>) => Promise<{ data: unknown; status: number; headers: unknown }>;
+}
+
+export interface AxiosSaverOptions {
+  /**
+   * Endpoint to save to, or a function building it from the save context
+   */
+  url: ContextValue<string>;
+
+  /**
+   * HTTP method (default: 'patch')
+   */
+  method?: string;
+
+  /**
+   * Extra request headers
+   */
+  headers?: ContextValue<Record<string, string>>;
+
+  /**
+   * What to send (default: 'diff')
+   */
+  payload?: AutoSavePayload;
+
+  /**
+   * Other Axios request options, e.g. `withCredentials`
+   */
+  config?: Record<string, unknown>;
+}
+
+const normalizeHeaders = (headers: unknown): Record<string, string> => {
+  const normalized: Record<string, string> = {};
+  if (headers && typeof headers === 'object') {
+    for (const [name, value] of Object.entries(headers)) {
+      if (value != null) normalized[name.toLowerCase()] = String(value);
+    }
+  }
+  return normalized;
+};
+
+/**
+ * Creates an `onSave` handler sending the changes with an Axios instance. Passes
+ * the abort signal through, sends `If-Match` with the version and reads the new one from `ETag`.
+ * Network errors are rethrown as is.
+ */
+export function axiosSaver(instance: AxiosLike, options: AxiosSaverOptions) {
+  const { url, method = 'patch', headers = {}, payload = 'diff', config } = options;
+
+  return (context: AutoSaveContext): Promise<AutoSaveResult> =>
+    instance
+      .request({
+        ...config,
+        url: resolve(url, context),
+        method,
+        headers: {
+          'Content-Type': getContentType(payload),
+          ...getVersionHeaders(context),
+          ...resolve(headers, context),
+        },
+        data: getPayload(payload, context),
+        signal: context.signal,
+      })
+      .then(
+        (response) => ({ version: normalizeHeaders(response.headers).etag }),
+        (err) => {
+          const response = err?.response;
+          if (!response) throw err;
+          throw toSaveError(response.status, response.data, normalizeHeaders(response.headers));
+        }
+      );
+}
+
+/**
+ * Minimal shape of Inertia's visit options used by the adapter
+ */
+export interface InertiaVisitOptions {
+  preserveScroll?: boolean;
+  preserveState?: boolean;
+  onSuccess?: (...args: unknown[]) => void;
+  onError?: (errors: Record<string, string>) => void;
+  onCancel?: () => void;
+  onFinish?: (...args: unknown[]) => void;
+  onCancelToken?: (token: { cancel: () => void }) => void;
+  [option: string]: unknown;
+}
+
+type InertiaMethod = 'post' | 'put' | 'patch' | 'delete';
+
+/**
+ * Minimal shape of Inertia's `useForm()` return value
+ */
+export type InertiaFormLike = {
+  transform: (callback: (data: Record<string, unknown>) => object) => unknown;
+} & Record<InertiaMethod, (url: string, options?: InertiaVisitOptions) => void>;
+
+export interface InertiaSaverOptions {
+  /**
+   * Endpoint to save to, or a function building it from the save context
+   */
+  url: ContextValue<string>;
+
+  /**
+   * Form method used for the visit (default: 'patch')
+   */
+  method?: InertiaMethod;
+
+  /**
+   * Keep the scroll position after the visit (default: true)
+   */
+  preserveScroll?: boolean;
+
+  /**
+   * Keep component state after the visit (default: true)
+   */
+  preserveState?: boolean;
+
+  /**
+   * What to send (default: the form data, as Inertia submits it)
+   */
+  payload?: AutoSavePayload;
+
+  /**
+   * The form's own `transform` callback. Inertia can't read it back, so with
+   * `payload` set, pass it here instead of calling `form.transform()`: it's
+   * applied to the payload and set again on the form after each submit.
+   */
+  transform?: (data: Record<string, unknown>) => object;
+
+  /**
+   * Other visit options, e.g. `only`
+   */
+  options?: InertiaVisitOptions;
+}
+
+/**
+ * Creates an `onSave` handler submitting an Inertia form. Inertia fills
+ * `form.errors` on validation errors, which also reject the save with an
+ * `AutoSaveValidationError`. Aborting the save cancels the visit.
+ */
+export function inertiaSaver(form: InertiaFormLike, options: InertiaSaverOptions) {
+  const {
+    url,
+    method = 'patch',
+    preserveScroll = true,
+    preserveState = true,
+    payload,
+    transform = (data: Record<string, unknown>) => data,
+  } = options;
+
+  return (context: AutoSaveContext): Promise<void> =>
+    new Promise((resolveSave, rejectSave) => {
+      let settled = false;
+      const settle = (err?: unknown) => {
+        if (settled) return;
+        settled = true;
+        if (err) {
+          rejectSave(err);
+        } else {
+          resolveSave();
+        }
+      };
+
+      if (payload) form.transform(() => transform(getPayload(payload, context) as Record<string, unknown>));
+
+      form[method](resolve(url, context), {
+        ...options.options,
+        preserveScroll,
+        preserveState,
+        onCancelToken: (token) => {
+          context.signal.addEventListener('abort', () => token.cancel());
+          options.options?.onCancelToken?.(token);
+        },
+        onSuccess: (...args) => {
+          settle();
+          options.options?.onSuccess?.(...args);
+        },
+        onError: (errors) => {
+          settle(new AutoSaveValidationError(toValidationErrors(errors) ?? {}));
+          options.options?.onError?.(errors);
+        },
+        onCancel: () => {
+          settle(new Error('Inertia visit was cancelled'));
+          options.options?.onCancel?.();
+        },
+        onFinish: (...args) => {
+          settle(new Error('Inertia visit failed'));
+          options.options?.onFinish?.(...args);
+        },
+      });
+
+      // Inertia reads the transform synchronously while submitting
+      if (payload) form.transform(transform);
+    });
+}
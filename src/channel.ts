@@ -0,0 +1,160 @@
+import { ref, type Ref } from 'vue';
+import type { AutoSaveVersion } from './errors';
+
+/**
+ * Messages exchanged between tabs sharing a channel key. `change` carries the
+ * sender's unsaved diff, `saved` the leader's whole saved snapshot.
+ */
+export type TabMessage =
+  | { type: 'hello' | 'heartbeat' | 'bye'; from: string }
+  | { type: 'change'; from: string; data: string }
+  | { type: 'saved'; from: string; data: string; version: AutoSaveVersion | null };
+
+export interface TabTransport {
+  post: (message: TabMessage) => void;
+  close: () => void;
+}
+
+/**
+ * Connects to other tabs through `BroadcastChannel`, falling back to `storage`
+ * events where it isn't available. Outside browsers, nothing is sent.
+ */
+export function createTabTransport(name: string, onMessage: (message: TabMessage) => void): TabTransport {
+  if (typeof BroadcastChannel === 'function') {
+    const channel = new BroadcastChannel(`vue-auto-save:${name}`);
+    channel.onmessage = (event: MessageEvent<TabMessage>) => onMessage(event.data);
+    return {
+      post: (message) => channel.postMessage(message),
+      close: () => channel.close(),
+    };
+  }
+
+  if (typeof window !== 'undefined' && typeof localStorage !== 'undefined') {
+    const key = `vue-auto-save:channel:${name}`;
+    const onStorage = (event: StorageEvent) => {
+      if (event.key !== key || !event.newValue) return;
+      onMessage(JSON.parse(event.newValue).message);
+    };
+    window.addEventListener('storage', onStorage);
+    return {
+      // The nonce makes repeated identical messages still fire a storage event
+      post: (message) => localStorage.setItem(key, JSON.stringify({ message, nonce: Math.random() })),
+      close: () => window.removeEventListener('storage', onStorage),
+    };
+  }
+
+  return { post: () => {}, close: () => {} };
+}
+
+export interface TabChannelOptions {
+  /**
+   * Heartbeat interval in milliseconds; peers silent for 3 intervals are dropped (default: 1000ms)
+   */
+  heartbeat?: number;
+
+  /**
+   * Called for `change` and `saved` messages from other tabs
+   */
+  onMessage: (message: Extract<TabMessage, { type: 'change' | 'saved' }>) => void;
+
+  /**
+   * Called when this tab becomes or stops being the leader
+   */
+  onLeaderChange?: (isLeader: boolean) => void;
+
+  /**
+   * Called with the id of the leader whenever a different tab is elected, this one included
+   */
+  onLeaderElected?: (leaderId: string) => void;
+}
+
+export interface TabChannel {
+  /**
+   * Unique id of this tab; ids sort by creation time
+   */
+  id: string;
+
+  /**
+   * Whether this tab is the one saving for every tab
+   */
+  isLeader: Ref<boolean>;
+
+  post: (message: Extract<TabMessage, { type: 'change' | 'saved' }>) => void;
+  close: () => void;
+}
+
+/**
+ * Joins a channel of tabs and elects a leader: the oldest tab still sending heartbeats.
+ * A new tab listens for one heartbeat before electing, so it doesn't briefly take over.
+ */
+export function createTabChannel(name: string, options: TabChannelOptions): TabChannel {
+  const { heartbeat = 1000, onMessage, onLeaderChange, onLeaderElected } = options;
+  const id = `${Date.now().toString(36).padStart(10, '0')}-${Math.random().toString(36).slice(2, 10)}`;
+  const peers = new Map<string, number>();
+  const isLeader = ref(false);
+  let discovering = true;
+  let leaderId: string | null = null;
+
+  const elect = () => {
+    if (discovering) return;
+    const now = Date.now();
+    for (const [peer, seenAt] of peers) {
+      if (now - seenAt > heartbeat * 3) peers.delete(peer);
+    }
+    const elected = [id, ...peers.keys()].sort()[0];
+    const leader = elected === id;
+    if (leader !== isLeader.value) {
+      isLeader.value = leader;
+      onLeaderChange?.(leader);
+    }
+    if (elected !== leaderId) {
+      leaderId = elected;
+      onLeaderElected?.(elected);
+    }
+  };
+
+  const transport = createTabTransport(name, (message) => {
+    if (message.from === id) return;
+
+    switch (message.type) {
+      case 'hello':
+        peers.set(message.from, Date.now());
+        transport.post({ type: 'heartbeat', from: id });
+        break;
+      case 'heartbeat':
+        peers.set(message.from, Date.now());
+        break;
+      case 'bye':
+        peers.delete(message.from);
+        break;
+      default:
+        peers.set(message.from, Date.now());
+        onMessage(message);
+    }
+    elect();
+  });
+
+  transport.post({ type: 'hello', from: id });
+
+  const discovery = setTimeout(() => {
+    discovering = false;
+    elect();
+  }, heartbeat);
+
+  const timer = setInterval(() => {
+    transport.post({ type: 'heartbeat', from: id });
+    elect();
+  }, heartbeat);
+
+  return {
+    id,
+    isLeader,
+    post: (message) => transport.post(message),
+    close: () => {
+      clearTimeout(discovery);
+      clearInterval(timer);
+      transport.post({ type: 'bye', from: id });
+      transport.close();
+    },
+  };
+}
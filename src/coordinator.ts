@@ -0,0 +1,217 @@
+import {
+  computed,
+  getCurrentInstance,
+  inject,
+  provide,
+  shallowReactive,
+  type ComputedRef,
+  type InjectionKey,
+  type Ref,
+} from 'vue';
+import type { AutoSaveContext, AutoSaveResult } from './index';
+
+/**
+ * The parts of a `useAutoSaveForm()` instance the coordinator tracks
+ */
+export interface AutoSaveCoordinatorMember {
+  isDirty: Ref<boolean>;
+  isAutoSaving: Ref<boolean>;
+  lastError: Ref<unknown>;
+  flush: () => Promise<void>;
+}
+
+/**
+ * Saves the batched forms' contexts, keyed by form id. May return a result per
+ * form (e.g. its new `version`), or an `Error` to fail that form only.
+ */
+export type AutoSaveBatchHandler = (
+  batch: Record<string, AutoSaveContext>
+) =>
+  | void
+  | Record<string, void | AutoSaveResult | Error>
+  | Promise<void | Record<string, void | AutoSaveResult | Error>>;
+
+export interface AutoSaveCoordinatorOptions {
+  /**
+   * Saves registered forms together instead of calling their `onSave`
+   */
+  onBatchSave?: AutoSaveBatchHandler;
+
+  /**
+   * How long in milliseconds to collect saves into one batch (default: 50ms)
+   */
+  batchWindow?: number;
+}
+
+export interface AutoSaveCoordinator {
+  /**
+   * Whether any registered form is saving
+   */
+  isSaving: ComputedRef<boolean>;
+
+  /**
+   * Whether any registered form has unsaved changes
+   */
+  isDirty: ComputedRef<boolean>;
+
+  /**
+   * Errors of the last failed save per form id
+   */
+  errors: ComputedRef<Record<string, unknown>>;
+
+  /**
+   * Saves pending changes of every registered form, resolves once all are done
+   */
+  flushAll: () => Promise<void>;
+
+  /**
+   * Whether saves go through `onBatchSave`
+   */
+  batching: boolean;
+
+  /**
+   * Adds a form, returning its id (generated if not given) and a function removing it.
+   * Throws if another form already uses the id.
+   */
+  register: (
+    member: AutoSaveCoordinatorMember,
+    id?: string
+  ) => { id: string; unregister: () => void };
+
+  /**
+   * Queues a save into the current batch; resolves with the form's result
+   */
+  enqueue: (id: string, context: AutoSaveContext) => Promise<void | AutoSaveResult>;
+}
+
+const coordinatorKey: InjectionKey<AutoSaveCoordinator> = Symbol('AutoSaveCoordinator');
+
+/**
+ * Creates a coordinator that `useAutoSaveForm` instances register with, for page-level
+ * save state, `flushAll()` and optionally batching their saves into one request.
+ */
+export function createAutoSaveCoordinator(
+  options: AutoSaveCoordinatorOptions = {}
+): AutoSaveCoordinator {
+  const { onBatchSave, batchWindow = 50 } = options;
+  const members = shallowReactive(new Map<string, AutoSaveCoordinatorMember>());
+  let count = 0;
+
+  const isSaving = computed(() => [...members.values()].some((member) => member.isAutoSaving.value));
+  const isDirty = computed(() => [...members.values()].some((member) => member.isDirty.value));
+  const errors = computed(() => {
+    const result: Record<string, unknown> = {};
+    for (const [id, member] of members) {
+      if (member.lastError.value) result[id] = member.lastError.value;
+    }
+    return result;
+  });
+
+  type BatchEntry = {
+    id: string;
+    context: AutoSaveContext;
+    resolve: (result: void | AutoSaveResult) => void;
+    reject: (err: unknown) => void;
+  };
+  let batch: BatchEntry[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const runBatch = () => {
+    clearTimeout(timer);
+    timer = undefined;
+    const entries = batch.filter((entry) => !entry.context.signal.aborted);
+    batch = [];
+    if (!entries.length) return;
+
+    const contexts: Record<string, AutoSaveContext> = {};
+    for (const entry of entries) contexts[entry.id] = entry.context;
+
+    new Promise<void | Record<string, void | AutoSaveResult | Error>>(
+      (resolve) => resolve(onBatchSave!(contexts))
+    )
+      .then((results) => {
+        for (const entry of entries) {
+          const result = results?.[entry.id];
+          if (result instanceof Error) {
+            entry.reject(result);
+          } else {
+            entry.resolve(result);
+          }
+        }
+      })
+      .catch((err) => {
+        for (const entry of entries) entry.reject(err);
+      });
+  };
+
+  const enqueue = (id: string, context: AutoSaveContext) =>
+    new Promise<void | AutoSaveResult>((resolve, reject) => {
+      // A batch holds one save per form, so every entry is settled by its own context
+      if (batch.some((other) => other.id === id)) runBatch();
+      const entry: BatchEntry = { id, context, resolve, reject };
+      batch.push(entry);
+      context.signal.addEventListener('abort', () => {
+        batch = batch.filter((other) => other !== entry);
+        reject(context.signal.reason);
+      });
+      timer ??= setTimeout(runBatch, batchWindow);
+    });
+
+  /**
+   * Generates an id, skipping ones given explicitly
+   */
+  const nextId = () => {
+    let id = `form-${++count}`;
+    while (members.has(id)) id = `form-${++count}`;
+    return id;
+  };
+
+  const register = (member: AutoSaveCoordinatorMember, id?: string) => {
+    if (id !== undefined && members.has(id)) {
+      throw new Error(`[AutoSave] A form with id "${id}" is already registered with this coordinator.`);
+    }
+    const memberId = id ?? nextId();
+    members.set(memberId, member);
+    return {
+      id: memberId,
+      unregister: () => {
+        if (members.get(memberId) === member) members.delete(memberId);
+      },
+    };
+  };
+
+  const flushAll = () => {
+    const done = Promise.all([...members.values()].map((member) => member.flush()));
+    // Send what the flushes queued right away instead of waiting for the window
+    if (timer) runBatch();
+    return done.then(() => undefined);
+  };
+
+  return {
+    isSaving,
+    isDirty,
+    errors,
+    flushAll,
+    batching: !!onBatchSave,
+    register,
+    enqueue,
+  };
+}
+
+/**
+ * Provides a coordinator to the forms of this component and its descendants
+ * @returns The provided coordinator
+ */
+export function provideAutoSaveCoordinator(
+  coordinator: AutoSaveCoordinator = createAutoSaveCoordinator()
+): AutoSaveCoordinator {
+  provide(coordinatorKey, coordinator);
+  return coordinator;
+}
+
+/**
+ * Returns the coordinator provided by an ancestor component, or null
+ */
+export function injectAutoSaveCoordinator(): AutoSaveCoordinator | null {
+  return getCurrentInstance() ? inject(coordinatorKey, null) : null;
+}
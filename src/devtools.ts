@@ -0,0 +1,255 @@
+import type { App, Ref } from 'vue';
+import {
+  autoSaveEventTypes,
+  type AutoSaveEventSubscriber,
+  type AutoSaveEventType,
+  type AutoSaveEvents,
+} from './events';
+import type { AutoSaveVersion } from './errors';
+import type { AutoSaveContext, AutoSaveStatus } from './index';
+
+/**
+ * The parts of a `useAutoSaveForm()` instance shown in devtools
+ */
+export interface AutoSaveDevtoolsInstance {
+  id: string;
+  status: Ref<AutoSaveStatus>;
+  isDirty: Ref<boolean>;
+  lastSavedAt: Ref<Date | null>;
+  lastError: Ref<unknown>;
+  version: Ref<AutoSaveVersion | null>;
+  on: AutoSaveEventSubscriber;
+}
+
+export interface AutoSaveDevtoolsOptions {
+  /**
+   * `setupDevtoolsPlugin` from `@vue/devtools-api`, which stays an optional dependency
+   */
+  setupDevtoolsPlugin: (descriptor: DevtoolsPluginDescriptor, setup: (api: DevtoolsApiLike) => void) => void;
+}
+
+/**
+ * Plugin descriptor passed to `setupDevtoolsPlugin`
+ */
+export interface DevtoolsPluginDescriptor {
+  id: string;
+  label: string;
+  packageName: string;
+  homepage: string;
+  app: App;
+}
+
+type DevtoolsStateEntry = { key: string; value: unknown };
+
+/**
+ * Minimal shape of the `@vue/devtools-api` plugin API used here
+ */
+export interface DevtoolsApiLike {
+  addInspector: (options: { id: string; label: string; icon?: string; treeFilterPlaceholder?: string }) => void;
+  addTimelineLayer: (options: { id: string; label: string; color: number }) => void;
+  addTimelineEvent: (options: {
+    layerId: string;
+    event: {
+      time: number;
+      title: string;
+      subtitle?: string;
+      data: Record<string, unknown>;
+      logType?: 'default' | 'warning' | 'error';
+    };
+  }) => void;
+  sendInspectorTree: (inspectorId: string) => void;
+  sendInspectorState: (inspectorId: string) => void;
+  now: () => number;
+  on: {
+    getInspectorTree: (handler: (payload: {
+      inspectorId: string;
+      filter: string;
+      rootNodes: Array<{
+        id: string;
+        label: string;
+        tags?: Array<{ label: string; textColor: number; backgroundColor: number }>;
+      }>;
+    }) => void) => void;
+    getInspectorState: (handler: (payload: {
+      inspectorId: string;
+      nodeId: string;
+      state: Record<string, DevtoolsStateEntry[]>;
+    }) => void) => void;
+  };
+}
+
+const inspectorId = 'vue-auto-save';
+const timelineLayerId = 'vue-auto-save';
+
+const statusColors: Record<AutoSaveStatus, number> = {
+  idle: 0x8e8e8e,
+  dirty: 0xf0ad4e,
+  pending: 0xf0ad4e,
+  saving: 0x1e88e5,
+  saved: 0x42b883,
+  error: 0xe53935,
+  offline: 0x757575,
+};
+
+type TrackedInstance = {
+  instance: AutoSaveDevtoolsInstance;
+  lastContext: AutoSaveContext | null;
+  lastSaved: Record<string, unknown> | null;
+  detach: () => void;
+};
+
+const instances = new Map<string, TrackedInstance>();
+const apis = new Set<DevtoolsApiLike>();
+let count = 0;
+let installed = false;
+
+/**
+ * Timeline data of an event; contexts are reduced to what they describe
+ */
+const toTimelineData = <K extends AutoSaveEventType>(type: K, payload: AutoSaveEvents[K]) => {
+  if (type !== 'save:start') return { ...payload } as Record<string, unknown>;
+  const { context, attempt } = payload as AutoSaveEvents['save:start'];
+  const { snapshot, diff, changedPaths, version } = context;
+  return { attempt, snapshot, diff, changedPaths, version };
+};
+
+const getLogType = <K extends AutoSaveEventType>(type: K, payload: AutoSaveEvents[K]) => {
+  if (type === 'save:error') return 'error';
+  if (type === 'log') {
+    const { level } = payload as AutoSaveEvents['log'];
+    return level === 'error' ? 'error' : level === 'warn' ? 'warning' : 'default';
+  }
+  return type === 'blocked' ? 'warning' : 'default';
+};
+
+/**
+ * Subscribes to an instance's events to fill the timeline and keep the inspector up to date
+ */
+const attach = (tracked: TrackedInstance) => {
+  const { instance } = tracked;
+  const stops = autoSaveEventTypes.map((type) =>
+    instance.on(type, (payload) => {
+      if (type === 'save:start') tracked.lastContext = (payload as AutoSaveEvents['save:start']).context;
+      if (type === 'save:success') tracked.lastSaved = (payload as AutoSaveEvents['save:success']).snapshot;
+
+      for (const api of apis) {
+        api.addTimelineEvent({
+          layerId: timelineLayerId,
+          event: {
+            time: api.now(),
+            title: type,
+            subtitle: instance.id,
+            data: toTimelineData(type, payload),
+            logType: getLogType(type, payload),
+          },
+        });
+        api.sendInspectorTree(inspectorId);
+        api.sendInspectorState(inspectorId);
+      }
+    })
+  );
+  tracked.detach = () => stops.forEach((stop) => stop());
+};
+
+const getInspectorState = ({ instance, lastContext, lastSaved }: TrackedInstance) => ({
+  state: [
+    { key: 'status', value: instance.status.value },
+    { key: 'isDirty', value: instance.isDirty.value },
+    { key: 'lastSavedAt', value: instance.lastSavedAt.value },
+    { key: 'version', value: instance.version.value },
+    { key: 'lastError', value: instance.lastError.value },
+  ],
+  'last save': [
+    { key: 'snapshot', value: lastSaved },
+    { key: 'diff', value: lastContext?.diff ?? null },
+    { key: 'changedPaths', value: lastContext?.changedPaths ?? [] },
+  ],
+});
+
+/**
+ * Adds an instance to the devtools inspector, returns a function removing it.
+ * Repeated ids get a ` (2)`, ` (3)`… suffix. Used by `useAutoSaveForm`.
+ * Nothing is tracked before `autoSaveDevtools` is installed, or on the server.
+ */
+export function registerDevtoolsInstance(
+  instance: Omit<AutoSaveDevtoolsInstance, 'id'> & { id?: string }
+): () => void {
+  if (!installed || typeof window === 'undefined') return () => {};
+
+  const baseId = instance.id ?? `form-${++count}`;
+  // Ids may repeat, e.g. `form-1` in two coordinators
+  let id = baseId;
+  for (let n = 2; instances.has(id); n++) id = `${baseId} (${n})`;
+  const tracked: TrackedInstance = {
+    instance: { ...instance, id },
+    lastContext: null,
+    lastSaved: null,
+    detach: () => {},
+  };
+  instances.set(id, tracked);
+  if (apis.size) attach(tracked);
+  apis.forEach((api) => api.sendInspectorTree(inspectorId));
+
+  return () => {
+    tracked.detach();
+    instances.delete(id);
+    apis.forEach((api) => api.sendInspectorTree(inspectorId));
+  };
+}
+
+/**
+ * Vue plugin adding an "Auto Save" inspector listing every `useAutoSaveForm`
+ * instance with its status, last saved snapshot and diff, and a timeline of their events.
+ *
+ * @example
+ * import { setupDevtoolsPlugin } from '@vue/devtools-api'
+ * app.use(autoSaveDevtools, { setupDevtoolsPlugin })
+ */
+export const autoSaveDevtools = {
+  install(app: App, options: AutoSaveDevtoolsOptions) {
+    installed = true;
+    options.setupDevtoolsPlugin(
+      {
+        id: 'vue-auto-save',
+        label: 'Vue Auto Save',
+        packageName: '@provydon/vue-auto-save',
+        homepage: 'https://github.com/provydon/vue-auto-save',
+        app,
+      },
+      (api) => {
+        api.addInspector({
+          id: inspectorId,
+          label: 'Auto Save',
+          icon: 'save',
+          treeFilterPlaceholder: 'Search forms',
+        });
+        api.addTimelineLayer({ id: timelineLayerId, label: 'Auto Save', color: 0x42b883 });
+
+        api.on.getInspectorTree((payload) => {
+          if (payload.inspectorId !== inspectorId) return;
+          payload.rootNodes = [...instances.values()]
+            .filter(({ instance }) => instance.id.includes(payload.filter ?? ''))
+            .map(({ instance }) => ({
+              id: instance.id,
+              label: instance.id,
+              tags: [{
+                label: instance.status.value,
+                textColor: 0xffffff,
+                backgroundColor: statusColors[instance.status.value],
+              }],
+            }));
+        });
+
+        api.on.getInspectorState((payload) => {
+          if (payload.inspectorId !== inspectorId) return;
+          const tracked = instances.get(payload.nodeId);
+          if (tracked) payload.state = getInspectorState(tracked);
+        });
+
+        if (!apis.size) instances.forEach(attach);
+        apis.add(api);
+        api.sendInspectorTree(inspectorId);
+      }
+    );
+  },
+};
@@ -0,0 +1,165 @@
+import { toRaw } from 'vue';
+
+export interface SnapshotDiff {
+  /**
+   * Top-level and nested paths whose value changed, e.g. `['address', 'address.city', 'tags', 'tags[2]']`
+   */
+  changedPaths: string[];
+
+  /**
+   * Minimal JSON Merge Patch (RFC 7396) describing the change.
+   * Removed keys are set to `null`, arrays are replaced as a whole.
+   */
+  diff: Record<string, unknown>;
+}
+
+/**
+ * Returns true for object literals and `Object.create(null)` objects.
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== 'object') return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Deep clones plain objects and arrays, unwrapping Vue proxies along the way.
+ * Anything else (Dates, class instances, functions) is kept by reference.
+ */
+export function cloneSnapshot<T>(value: T, seen = new WeakMap<object, unknown>()): T {
+  const raw = toRaw(value);
+  if (!Array.isArray(raw) && !isPlainObject(raw)) return raw;
+  if (seen.has(raw)) return seen.get(raw) as T;
+
+  if (Array.isArray(raw)) {
+    const copy: unknown[] = [];
+    seen.set(raw, copy);
+    for (const item of raw) copy.push(cloneSnapshot(item, seen));
+    return copy as T;
+  }
+
+  const copy: Record<string, unknown> = {};
+  seen.set(raw, copy);
+  for (const key of Object.keys(raw)) {
+    copy[key] = cloneSnapshot((raw as Record<string, unknown>)[key], seen);
+  }
+  return copy as T;
+}
+
+/**
+ * Appends a key or array index to a path using dot / bracket notation.
+ */
+export function joinPath(base: string, key: string | number): string {
+  if (typeof key === 'number') return `${base}[${key}]`;
+  return base ? `${base}.${key}` : key;
+}
+
+const isSameValue = (a: unknown, b: unknown): boolean => {
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  return Object.is(a, b);
+};
+
+/**
+ * Collects every changed path between two values, parents before children.
+ * Returns true if anything differs.
+ */
+const collectChanges = (a: unknown, b: unknown, path: string, out: string[]): boolean => {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    const start = out.length;
+    if (path) out.push(path);
+    let changed = a.length !== b.length;
+    const length = Math.max(a.length, b.length);
+    for (let i = 0; i < length; i++) {
+      if (collectChanges(a[i], b[i], joinPath(path, i), out)) changed = true;
+    }
+    if (!changed) out.length = start;
+    return changed;
+  }
+
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const start = out.length;
+    if (path) out.push(path);
+    let changed = false;
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    for (const key of keys) {
+      if (collectChanges(a[key], b[key], joinPath(path, key), out)) changed = true;
+    }
+    if (!changed) out.length = start;
+    return changed;
+  }
+
+  if (isSameValue(a, b)) return false;
+  if (path) out.push(path);
+  return true;
+};
+
+/**
+ * Structural equality for snapshot values (plain objects, arrays, Dates and primitives)
+ */
+export function isDeepEqual(a: unknown, b: unknown): boolean {
+  return !collectChanges(a, b, '', []);
+}
+
+/**
+ * Builds a JSON Merge Patch that turns `a` into `b`.
+ */
+const buildMergePatch = (
+  a: Record<string, unknown>,
+  b: Record<string, unknown>
+): Record<string, unknown> => {
+  const patch: Record<string, unknown> = {};
+
+  for (const key of Object.keys(a)) {
+    if (!(key in b)) patch[key] = null;
+  }
+
+  for (const key of Object.keys(b)) {
+    const prev = a[key];
+    const next = b[key];
+    if (isPlainObject(prev) && isPlainObject(next)) {
+      const nested = buildMergePatch(prev, next);
+      if (Object.keys(nested).length) patch[key] = nested;
+    } else if (!isDeepEqual(prev, next)) {
+      patch[key] = next;
+    }
+  }
+
+  return patch;
+};
+
+/**
+ * Applies a diff from `diffSnapshots()` on top of `target`, merging nested objects.
+ * Unlike RFC 7396, `null` is written as a value instead of removing the key.
+ */
+export function mergeDiff(
+  target: Record<string, unknown>,
+  diff: Record<string, unknown>
+): Record<string, unknown> {
+  const result = { ...target };
+  for (const [key, value] of Object.entries(diff)) {
+    if (key === '__proto__') continue;
+    const prev = target[key];
+    result[key] = isPlainObject(prev) && isPlainObject(value) ? mergeDiff(prev, value) : value;
+  }
+  return result;
+}
+
+/**
+ * Computes the changed paths and a minimal merge-patch diff between two snapshots.
+ *
+ * @param previous - The last saved snapshot (or null if nothing was saved yet)
+ * @param current - The snapshot about to be saved
+ */
+export function diffSnapshots(
+  previous: Record<string, unknown> | null,
+  current: Record<string, unknown>
+): SnapshotDiff {
+  const base = previous ?? {};
+  const changedPaths: string[] = [];
+  collectChanges(base, current, '', changedPaths);
+
+  return {
+    changedPaths,
+    diff: buildMergePatch(base, current),
+  };
+}
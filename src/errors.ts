@@ -0,0 +1,77 @@
+/**
+ * Server-side version of a record, e.g. an ETag or an incrementing revision
+ */
+export type AutoSaveVersion = string | number;
+
+/**
+ * Throw (or reject with) this from `onSave` when the server rejected the save
+ * because the record changed in the meantime, e.g. on HTTP 409 / 412.
+ */
+export class AutoSaveConflictError extends Error {
+  /**
+   * The current server copy of the record
+   */
+  readonly remote: Record<string, unknown>;
+
+  /**
+   * The version of `remote`, used for the next save
+   */
+  readonly version?: AutoSaveVersion;
+
+  constructor(remote: Record<string, unknown>, version?: AutoSaveVersion, message = 'Save conflict') {
+    super(message);
+    this.name = 'AutoSaveConflictError';
+    this.remote = remote;
+    this.version = version;
+  }
+}
+
+/**
+ * Throw (or reject with) this from `onSave` when the server rejected the save as
+ * invalid, e.g. on HTTP 422. It is not retried.
+ */
+export class AutoSaveValidationError extends Error {
+  /**
+   * Field path to error messages, as returned by the server
+   */
+  readonly errors: Record<string, string[]>;
+
+  constructor(errors: Record<string, string[]>, message = 'Validation failed') {
+    super(message);
+    this.name = 'AutoSaveValidationError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * Thrown by the HTTP adapters for unsuccessful responses other than conflicts and validation errors
+ */
+export class AutoSaveHttpError extends Error {
+  /**
+   * HTTP status code
+   */
+  readonly status: number;
+
+  /**
+   * Parsed response body
+   */
+  readonly data: unknown;
+
+  /**
+   * Response headers with lower-cased names
+   */
+  readonly headers: Record<string, string>;
+
+  constructor(
+    status: number,
+    data: unknown,
+    headers: Record<string, string> = {},
+    message = `Save failed with HTTP ${status}`
+  ) {
+    super(message);
+    this.name = 'AutoSaveHttpError';
+    this.status = status;
+    this.data = data;
+    this.headers = headers;
+  }
+}
@@ -0,0 +1,118 @@
+import type { AutoSaveContext } from './index';
+import type { AutoSaveVersion } from './errors';
+
+/**
+ * Events emitted by `useAutoSaveForm`, by type
+ */
+export interface AutoSaveEvents {
+  /**
+   * The form was edited. `changedPaths` lists the paths that differ from the last save.
+   */
+  change: { changedPaths: string[] };
+
+  /**
+   * A save didn't start because the form is blocked, paused or disabled, nothing
+   * changed since the previous save or the changes are invalid
+   */
+  skip: {
+    reason: 'blocked' | 'paused' | 'disabled' | 'unchanged' | 'invalid';
+    errors?: Record<string, string[]>;
+  };
+
+  /**
+   * A save attempt started (`attempt` > 1 for retries)
+   */
+  'save:start': { context: AutoSaveContext; attempt: number };
+
+  /**
+   * A save succeeded, `duration` in milliseconds includes retries
+   */
+  'save:success': {
+    snapshot: Record<string, unknown>;
+    version: AutoSaveVersion | null;
+    duration: number;
+  };
+
+  /**
+   * A save attempt failed. `retryIn` is the delay before the next attempt, or null
+   * if the save gave up.
+   */
+  'save:error': { error: unknown; attempt: number; retryIn: number | null };
+
+  /**
+   * Saving is held back by `blockWatcher()` or the rate limit for `ms` milliseconds
+   */
+  blocked: { reason: 'watcher' | 'rate-limit'; ms: number };
+
+  /**
+   * Other diagnostics, e.g. storage failures or messages from other tabs
+   */
+  log: { level: 'debug' | 'info' | 'warn' | 'error'; message: string; data?: unknown };
+}
+
+export type AutoSaveEventType = keyof AutoSaveEvents;
+
+export type AutoSaveEventHandler<K extends AutoSaveEventType = AutoSaveEventType> = (
+  payload: AutoSaveEvents[K]
+) => void;
+
+/**
+ * Subscribes to an event type, returns a function removing the handler
+ */
+export type AutoSaveEventSubscriber = <K extends AutoSaveEventType>(
+  type: K,
+  handler: AutoSaveEventHandler<K>
+) => () => void;
+
+export const autoSaveEventTypes: AutoSaveEventType[] = [
+  'change',
+  'skip',
+  'save:start',
+  'save:success',
+  'save:error',
+  'blocked',
+  'log',
+];
+
+/**
+ * Creates a typed emitter for `AutoSaveEvents`. A throwing handler doesn't
+ * affect saving or the other handlers; its error goes to `onHandlerError`.
+ */
+export function createEventEmitter(
+  onHandlerError: (type: AutoSaveEventType, err: unknown) => void = () => {}
+) {
+  const handlers: { [K in AutoSaveEventType]: Set<AutoSaveEventHandler<K>> } = {
+    change: new Set(),
+    skip: new Set(),
+    'save:start': new Set(),
+    'save:success': new Set(),
+    'save:error': new Set(),
+    blocked: new Set(),
+    log: new Set(),
+  };
+
+  const on: AutoSaveEventSubscriber = (type, handler) => {
+    const set = handlers[type];
+    set.add(handler);
+    return () => {
+      set.delete(handler);
+    };
+  };
+
+  const emit = <K extends AutoSaveEventType>(type: K, payload: AutoSaveEvents[K]) => {
+    for (const handler of [...handlers[type]]) {
+      try {
+        handler(payload);
+      } catch (err) {
+        onHandlerError(type, err);
+      }
+    }
+  };
+
+  /**
+   * Whether anyone listens to the event type, to skip building expensive payloads
+   */
+  const has = (type: AutoSaveEventType) => !!handlers[type].size;
+
+  return { on, emit, has };
+}
@@ -0,0 +1,134 @@
+import { computed, watch, onScopeDispose, type Ref } from 'vue';
+
+/**
+ * What to do when leaving while changes are unsaved or a save is in flight:
+ * - `block`: stay on the page
+ * - `flush`: save right away and continue once the save succeeded
+ * - `confirm`: ask `confirm()` whether to leave anyway
+ */
+export type AutoSaveGuardStrategy = 'block' | 'flush' | 'confirm';
+
+/**
+ * The parts of `useAutoSaveForm()`'s return value the guard relies on
+ */
+export interface AutoSaveGuardTarget {
+  isDirty: Ref<boolean>;
+  isAutoSaving: Ref<boolean>;
+  flush: () => Promise<void>;
+}
+
+/**
+ * Structural type of vue-router's `onBeforeRouteLeave`, so vue-router stays optional
+ */
+export type BeforeRouteLeaveRegistrar = (
+  guard: (...args: unknown[]) => boolean | void | Promise<boolean | void>
+) => void;
+
+export interface UseAutoSaveGuardOptions {
+  /**
+   * How in-app navigation is handled (default: 'flush')
+   */
+  strategy?: AutoSaveGuardStrategy;
+
+  /**
+   * Asked before leaving with the `confirm` strategy (default: `window.confirm(message)`)
+   */
+  confirm?: () => boolean | Promise<boolean>;
+
+  /**
+   * Message for the default confirm dialog
+   */
+  message?: string;
+
+  /**
+   * Pass vue-router's `onBeforeRouteLeave` to guard in-app navigation
+   */
+  onBeforeRouteLeave?: BeforeRouteLeaveRegistrar;
+
+  /**
+   * Show the browser's "Leave site?" prompt while unsafe (default: true)
+   */
+  beforeUnload?: boolean;
+}
+
+/**
+ * Guards against leaving the page or route while a form has unsaved changes
+ * or a save is still in flight.
+ *
+ * @param autoSave - The object returned by `useAutoSaveForm`
+ * @param options - Strategy, confirm callback and router integration
+ * @returns `hasUnsavedChanges` and `stop()` to remove the guards early
+ */
+export function useAutoSaveGuard(
+  autoSave: AutoSaveGuardTarget,
+  options: UseAutoSaveGuardOptions = {}
+) {
+  const {
+    strategy = 'flush',
+    message = 'You have unsaved changes. Leave anyway?',
+    confirm = () => window.confirm(message),
+    onBeforeRouteLeave,
+    beforeUnload = true,
+  } = options;
+
+  /**
+   * Whether leaving now could lose changes
+   */
+  const hasUnsavedChanges = computed(
+    () => autoSave.isDirty.value || autoSave.isAutoSaving.value
+  );
+
+  let active = true;
+
+  const onBeforeUnload = (event: BeforeUnloadEvent) => {
+    if (!active || !hasUnsavedChanges.value) return;
+    if (strategy === 'flush') autoSave.flush();
+    event.preventDefault();
+    event.returnValue = '';
+  };
+
+  // Only listen while unsafe, so the page stays eligible for the back/forward cache
+  const stopWatch = watch(
+    hasUnsavedChanges,
+    (unsafe) => {
+      if (!beforeUnload || typeof window === 'undefined') return;
+      if (unsafe && active) {
+        window.addEventListener('beforeunload', onBeforeUnload);
+      } else {
+        window.removeEventListener('beforeunload', onBeforeUnload);
+      }
+    },
+    { immediate: true }
+  );
+
+  onBeforeRouteLeave?.(() => {
+    if (!active || !hasUnsavedChanges.value) return true;
+
+    switch (strategy) {
+      case 'block':
+        return false;
+      case 'confirm':
+        return Promise.resolve(confirm()).then(Boolean);
+      default:
+        return autoSave.flush().then(() => !hasUnsavedChanges.value);
+    }
+  });
+
+  /**
+   * Removes the guards
+   */
+  const stop = () => {
+    active = false;
+    stopWatch();
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('beforeunload', onBeforeUnload);
+    }
+  };
+
+  onScopeDispose(stop);
+
+  return {
+    hasUnsavedChanges,
+    stop,
+  };
+}
@@ -1,15 +1,381 @@
-import { ref, watch, isRef, unref, onScopeDispose, type Ref } from 'vue';
+import {
+  ref,
+  computed,
+  nextTick,
+  watch,
+  isRef,
+  unref,
+  onScopeDispose,
+  type ObjectDirective,
+  type Ref,
+} from 'vue';
+import { createTabChannel, type TabMessage } from './channel';
+import { injectAutoSaveCoordinator, type AutoSaveCoordinator } from './coordinator';
+import { registerDevtoolsInstance } from './devtools';
+import { cloneSnapshot, diffSnapshots, isDeepEqual, joinPath, mergeDiff } from './diff';
+import { createEventEmitter, type AutoSaveEvents } from './events';
+import {
+  AutoSaveConflictError,
+  AutoSaveHttpError,
+  AutoSaveValidationError,
+  type AutoSaveVersion,
+} from './errors';
+import { attachLogger, consoleLogger, type AutoSaveLogger, type AutoSaveLogLevel } from './logger';
+import { threeWayMerge } from './merge';
+import { applyJsonPatch, createJsonPatch, type JsonPatchOperation, type JsonPatchOptions } from './patch';
+import { createFieldFilter, createPathMatcher, parsePath, type FieldMatcher } from './paths';
+import type { AutoSaveStorage } from './storage';
+import {
+  toValidationErrors,
+  type AutoSaveValidationErrors,
+  type AutoSaveValidationResult,
+  type AutoSaveValidator,
+} from './validators';
+
+export { fetchSaver, axiosSaver, inertiaSaver } from './adapters';
+export type {
+  AutoSavePayload,
+  AxiosLike,
+  AxiosSaverOptions,
+  FetchSaverOptions,
+  InertiaFormLike,
+  InertiaSaverOptions,
+  InertiaVisitOptions,
+} from './adapters';
+export { createTabChannel, createTabTransport } from './channel';
+export type { TabChannel, TabChannelOptions, TabMessage, TabTransport } from './channel';
+export {
+  createAutoSaveCoordinator,
+  provideAutoSaveCoordinator,
+  injectAutoSaveCoordinator,
+} from './coordinator';
+export type {
+  AutoSaveBatchHandler,
+  AutoSaveCoordinator,
+  AutoSaveCoordinatorMember,
+  AutoSaveCoordinatorOptions,
+} from './coordinator';
+export { autoSaveDevtools } from './devtools';
+export type { AutoSaveDevtoolsOptions, DevtoolsApiLike, DevtoolsPluginDescriptor } from './devtools';
+export { cloneSnapshot, diffSnapshots, isDeepEqual } from './diff';
+export type { SnapshotDiff } from './diff';
+export { AutoSaveConflictError, AutoSaveValidationError, AutoSaveHttpError } from './errors';
+export type { AutoSaveVersion } from './errors';
+export type {
+  AutoSaveEventHandler,
+  AutoSaveEvents,
+  AutoSaveEventSubscriber,
+  AutoSaveEventType,
+} from './events';
+export { consoleLogger } from './logger';
+export type { AutoSaveLogger, AutoSaveLogLevel } from './logger';
+export { threeWayMerge } from './merge';
+export type { ThreeWayMergeOptions } from './merge';
+export { applyJsonPatch, createJsonPatch } from './patch';
+export type { JsonPatchOperation, JsonPatchOptions } from './patch';
+export { createFieldFilter, createPathMatcher, parsePath } from './paths';
+export type { FieldMatcher, FieldFilterOptions } from './paths';
+export { useAutoSaveStore } from './pinia';
+export type { PiniaStoreLike, UseAutoSaveStoreOptions } from './pinia';
+export { localStorageAdapter, memoryStorage, indexedDBStorage } from './storage';
+export type { AutoSaveStorage, IndexedDBStorageOptions } from './storage';
+export {
+  toValidationErrors,
+  zodValidator,
+  veeValidateValidator,
+  vuelidateValidator,
+} from './validators';
+export type {
+  AutoSaveValidateContext,
+  AutoSaveValidationErrors,
+  AutoSaveValidationResult,
+  AutoSaveValidator,
+  VeeValidateLikeForm,
+  VuelidateLike,
+  ZodLikeSchema,
+} from './validators';
+export { useAutoSaveGuard } from './guard';
+export type {
+  AutoSaveGuardStrategy,
+  AutoSaveGuardTarget,
+  BeforeRouteLeaveRegistrar,
+  UseAutoSaveGuardOptions,
+} from './guard';
+
+/**
+ * An option value that may also be a ref or a getter, read again whenever it is used
+ */
+export type MaybeRefOrGetter<T> = T | Ref<T> | (() => T);
+
+export interface AutoSaveContext {
+  /**
+   * Filtered, deep-cloned copy of the form that is being saved
+   */
+  snapshot: Record<string, unknown>;
+
+  /**
+   * Snapshot from the previous save (null on the first save with `saveOnInit`)
+   */
+  previous: Record<string, unknown> | null;
+
+  /**
+   * Changed top-level and nested paths, e.g. `['address', 'address.city']`
+   */
+  changedPaths: string[];
+
+  /**
+   * Minimal JSON Merge Patch (RFC 7396) from `previous` to `snapshot`
+   */
+  diff: Record<string, unknown>;
+
+  /**
+   * JSON Patch (RFC 6902) from `previous` to `snapshot`, only set with the `jsonPatch` option
+   */
+  patch?: JsonPatchOperation[];
+
+  /**
+   * Server version (e.g. ETag) of the last saved state, send it as `If-Match`
+   */
+  version: AutoSaveVersion | null;
+
+  /**
+   * Aborted when the save is superseded (`concurrency: 'abort'`); pass it to fetch/axios
+   */
+  signal: AbortSignal;
+}
+
+/**
+ * What `onSave` may resolve to. Returning a `version` lets the composable track it
+ * and hand it to the next save.
+ */
+export interface AutoSaveResult {
+  version?: AutoSaveVersion;
+}
+
+/**
+ * How overlapping saves are handled:
+ * - `parallel`: start every save immediately (default)
+ * - `queue`: run saves one after another, in order
+ * - `coalesce`: while a save is in flight, run at most one trailing save with the latest form
+ * - `abort`: abort the in-flight save through its `signal` and start the new one
+ */
+export type AutoSaveConcurrency = 'parallel' | 'queue' | 'coalesce' | 'abort';
+
+/**
+ * Save lifecycle state:
+ * - `idle`: nothing changed and nothing saved yet
+ * - `dirty`: unsaved changes, but no save is scheduled (e.g. while blocked)
+ * - `pending`: unsaved changes, waiting for the debounce
+ * - `saving`: a save is in flight
+ * - `saved`: the last save succeeded and nothing changed since
+ * - `error`: the last save failed (or is waiting to be retried)
+ * - `offline`: the browser is offline and changes are queued for later
+ */
+export type AutoSaveStatus = 'idle' | 'dirty' | 'pending' | 'saving' | 'saved' | 'error' | 'offline';
+
+export interface AutoSaveDraftOptions {
+  /**
+   * Where the draft is kept (usually `localStorageAdapter()`)
+   */
+  storage: AutoSaveStorage;
+
+  /**
+   * Storage key for this form's draft, e.g. `post:42:draft`
+   */
+  key: string;
+
+  /**
+   * Delay in milliseconds before mirroring a change into the draft (default: 0, write right away)
+   */
+  debounce?: number;
+
+  /**
+   * When the server copy was last saved. Older drafts are ignored on mount.
+   */
+  savedAt?: Date | string | number | null;
+}
+
+export interface AutoSaveOfflineOptions {
+  /**
+   * Where queued snapshots are persisted (localStorage, IndexedDB, memory...)
+   */
+  storage: AutoSaveStorage;
+
+  /**
+   * Storage key for this form's queue, e.g. `post:42`
+   */
+  key: string;
+}
+
+export interface AutoSaveRetryOptions {
+  /**
+   * Maximum number of attempts, including the first one (default: 3)
+   */
+  attempts?: number;
+
+  /**
+   * Delay in milliseconds before the first retry, doubled on every attempt (default: 1000ms)
+   */
+  baseDelay?: number;
 
-export interface UseAutoSaveFormOptions {
   /**
-   * Delay in milliseconds before auto-saving after changes (default: 3000ms)
+   * Upper bound for the retry delay in milliseconds (default: 30000ms)
+   */
+  maxDelay?: number;
+
+  /**
+   * Randomize each delay between 50% and 100% of its value (default: true)
+   */
+  jitter?: boolean;
+
+  /**
+   * Decide whether a failed attempt should be retried (default: always).
+   * `AutoSaveValidationError`s are never retried.
+   */
+  shouldRetry?: (err: unknown, attempt: number) => boolean;
+}
+
+export interface AutoSaveRateLimitOptions {
+  /**
+   * Maximum number of saves per `window`, also the burst size (default: 10)
+   */
+  limit?: number;
+
+  /**
+   * Time in milliseconds over which `limit` saves are allowed (default: 60000ms)
+   */
+  window?: number;
+}
+
+export interface AutoSaveMetrics {
+  /**
+   * How the save ended: saved, failed, superseded by a conflict resolution,
+   * aborted or queued while offline
+   */
+  outcome: 'success' | 'error' | 'conflict' | 'aborted' | 'offline';
+
+  /**
+   * Milliseconds from the first attempt until the save settled, including retries
+   */
+  duration: number;
+
+  /**
+   * UTF-8 size of the serialized snapshot in bytes
+   */
+  bytes: number;
+
+  /**
+   * Number of changed fields (leaf paths) since the last save
+   */
+  changedFields: number;
+
+  /**
+   * Number of attempts after the first one
+   */
+  retries: number;
+
+  /**
+   * The error of the last attempt, for the 'error' outcome
+   */
+  error?: unknown;
+}
+
+export interface AutoSaveHistoryOptions {
+  /**
+   * Maximum number of entries kept, oldest are dropped first (default: 50)
+   */
+  limit?: number;
+
+  /**
+   * Also record snapshots that weren't saved yet, on every debounced change (default: false)
+   */
+  includeUnsaved?: boolean;
+}
+
+/**
+ * What starts a save:
+ * - `change`: debounced after every change (default)
+ * - `interval`: every `interval` ms while the form is dirty
+ * - `blur`: when a bound element loses focus (`v-autosave-blur` / `bindBlur(el)`)
+ * - `idle`: debounced, then deferred to the next browser idle period
+ * - `manual`: only on `flush()`
+ */
+export type AutoSaveTrigger = 'change' | 'interval' | 'blur' | 'idle' | 'manual';
+
+export interface AutoSaveFieldOptions {
+  /**
+   * Debounce for changes to this field, overriding the form-level `debounce`
    */
   debounce?: number;
 
   /**
-   * List of form field keys to exclude from tracking
+   * Save as soon as this field changes (same as `debounce: 0`)
+   */
+  immediate?: boolean;
+
+  /**
+   * `blur`: changes to this field alone don't schedule a save; they are saved on
+   * `handleBlur()` or together with the next save of another field (default: 'change')
+   */
+  trigger?: 'change' | 'blur';
+}
+
+/**
+ * Saves a snapshot of the form, see `onSave`
+ */
+export type AutoSaveHandler = (
+  context: AutoSaveContext
+) => void | AutoSaveResult | Promise<void | AutoSaveResult>;
+
+export interface UseAutoSaveFormOptions {
+  /**
+   * Whether changes are auto-saved; can be toggled at runtime with a ref or getter (default: true)
+   */
+  enabled?: MaybeRefOrGetter<boolean>;
+
+  /**
+   * Delay in milliseconds before auto-saving after changes, may be a ref or getter (default: 3000ms)
+   */
+  debounce?: MaybeRefOrGetter<number>;
+
+  /**
+   * Maximum time in milliseconds a change may wait while edits keep coming in,
+   * so continuous typing still saves periodically (default: no limit)
+   */
+  maxWait?: number;
+
+  /**
+   * Save on the first change of a burst instead of waiting for the debounce (default: false)
+   */
+  leading?: boolean;
+
+  /**
+   * Fields to exclude from tracking: top-level keys, dot-paths with wildcards
+   * (`meta.lastViewedAt`, `items.*.uiExpanded`, `lines[*].tempId`) or predicates.
+   * May be a ref or getter; fields that start or stop being tracked don't count as changes.
+   */
+  skipFields?: MaybeRefOrGetter<FieldMatcher[]>;
+
+  /**
+   * Only track these fields (same syntax as `skipFields`). Tracks everything by default.
+   */
+  includeFields?: MaybeRefOrGetter<FieldMatcher[] | undefined>;
+
+  /**
+   * What starts a save, one or several of 'change', 'interval', 'blur', 'idle', 'manual' (default: 'change')
+   */
+  trigger?: AutoSaveTrigger | AutoSaveTrigger[];
+
+  /**
+   * Interval in milliseconds for the 'interval' trigger (default: 10000ms)
+   */
+  interval?: number;
+
+  /**
+   * Per-field save timing, keyed by field name or path pattern (`title`, `items.*.done`).
+   * Changes are still merged into a single save per burst.
    */
-  skipFields?: string[];
+  fields?: Record<string, AutoSaveFieldOptions>;
 
   /**
    * Whether to skip common Inertia form fields (default: true)
@@ -22,10 +388,27 @@ export interface UseAutoSaveFormOptions {
   deep?: boolean;
 
   /**
-   * Enable debug logs in the console (default: false)
+   * Enable debug logs in the console, or in `logger` if given (default: false)
    */
   debug?: boolean;
 
+  /**
+   * Receives log messages of `logLevel` and above, e.g. `console` or an adapter
+   * for your monitoring (default: `consoleLogger` when `debug` is set)
+   */
+  logger?: AutoSaveLogger;
+
+  /**
+   * Lowest level passed to `logger` (default: 'debug' when `debug` is set, otherwise 'info')
+   */
+  logLevel?: AutoSaveLogLevel;
+
+  /**
+   * Called once per save when it settles, with its duration, size, changed field
+   * count, retries and outcome, e.g. to report autosave health to Datadog
+   */
+  metrics?: (metrics: AutoSaveMetrics) => void;
+
   /**
    * Custom serializer function (default: JSON.stringify)
    * Note: Functions and non-serializable fields won't survive JSON.stringify.
@@ -34,21 +417,118 @@ export interface UseAutoSaveFormOptions {
    */
   serialize?: (obj: Record<string, unknown>) => string;
 
+  /**
+   * Counterpart of `serialize`, used to restore persisted snapshots (default: JSON.parse)
+   */
+  deserialize?: (str: string) => Record<string, unknown>;
+
   /**
    * Custom comparator function (optional)
    * If provided, this will be used instead of string comparison
    */
   compare?: (a: Record<string, unknown>, b: Record<string, unknown>) => boolean;
 
+  /**
+   * Also pass a JSON Patch (RFC 6902) to `onSave` as `context.patch` (`true` for index-based array diffs)
+   */
+  jsonPatch?: boolean | JsonPatchOptions;
+
+  /**
+   * How to handle a save triggered while another one is still in flight (default: 'parallel')
+   */
+  concurrency?: AutoSaveConcurrency;
+
+  /**
+   * Retry failed saves with exponential backoff (default: no retries)
+   */
+  retry?: AutoSaveRetryOptions;
+
+  /**
+   * Limit how many saves start per time window (token bucket). Saves over the limit
+   * are deferred, not dropped: the latest changes are saved once allowed (default: no limit)
+   */
+  rateLimit?: AutoSaveRateLimitOptions;
+
+  /**
+   * Mirror unsaved changes into a local draft that can be restored after a reload or crash
+   */
+  draft?: AutoSaveDraftOptions;
+
+  /**
+   * Queue saves while offline, persist them and replay them once back online
+   */
+  offline?: AutoSaveOfflineOptions;
+
+  /**
+   * Keep a history of saved snapshots for `undo()` / `redo()` (`true` for the defaults)
+   */
+  history?: boolean | AutoSaveHistoryOptions;
+
+  /**
+   * Save pending changes right away on unmount, when the page is hidden and on `pagehide`
+   * instead of dropping them (default: false)
+   */
+  flushOnExit?: boolean;
+
+  /**
+   * Coordinate tabs editing the same form: tabs sharing this key elect one leader
+   * that saves for all of them and shares each saved state with the others
+   */
+  channel?: string;
+
+  /**
+   * Called instead of `onSave` when flushing because the page is hidden or unloading,
+   * so the payload can go through `navigator.sendBeacon` or `fetch(..., { keepalive: true })`.
+   * Return `false` to fall back to `onSave`.
+   */
+  onBeacon?: (context: AutoSaveContext) => boolean | void;
+
+  /**
+   * Only save when this returns true (or no field errors). Invalid changes stay dirty
+   * and are validated again on the next change. Sync or async.
+   */
+  validate?: AutoSaveValidator;
+
   /**
    * Whether to save on initial mount (default: false)
    */
   saveOnInit?: boolean;
 
   /**
-   * Called when a save should be triggered (required)
+   * Called when a save should be triggered. Required unless the form belongs to a
+   * coordinator with `onBatchSave`, which then saves instead.
+   * Receives the snapshot, the previous snapshot, the changed paths and a minimal diff.
+   * May be a ref to swap the handler at runtime.
+   */
+  onSave?: AutoSaveHandler | Ref<AutoSaveHandler>;
+
+  /**
+   * Id of the form within its coordinator (e.g. in `errors` and `onBatchSave`) and in devtools
+   * (default: generated)
+   */
+  id?: string;
+
+  /**
+   * Coordinator to register with (default: the one from `provideAutoSaveCoordinator()`,
+   * `false` to opt out)
+   */
+  coordinator?: AutoSaveCoordinator | false;
+
+  /**
+   * Initial server version (e.g. ETag) of the form, passed to `onSave` as `context.version`
+   */
+  version?: AutoSaveVersion | null;
+
+  /**
+   * Resolves an `AutoSaveConflictError` thrown by `onSave`. Receives the local form,
+   * the server copy and the last common state, returns the merged form which is
+   * written back and saved (default: `threeWayMerge`).
    */
-  onSave: () => void | Promise<void>;
+  onConflict?: (
+    local: Record<string, unknown>,
+    remote: Record<string, unknown>,
+    base: Record<string, unknown> | null
+  ) => Record<string, unknown> | Promise<Record<string, unknown>>;
 
   /**
    * Called just before auto-saving starts
@@ -64,6 +544,20 @@ export interface UseAutoSaveFormOptions {
    * Called if auto-saving throws or fails
    */
   onError?: (err: unknown) => void;
+
+  /**
+   * Extracts field errors from a failed save into `serverErrors`. Return nothing for
+   * errors that aren't about fields (default: reads `AutoSaveValidationError` and
+   * Axios-style 422 responses with an `errors` object).
+   */
+  parseError?: (err: unknown) => Record<string, string | string[] | undefined> | null | undefined;
+
+  /**
+   * Reads how long in milliseconds the server asked to wait after a failed save, e.g. on
+   * HTTP 429. Retries and later saves wait at least that long (default: reads the
+   * `Retry-After` header of `AutoSaveHttpError`s and Axios-style errors).
+   */
+  parseRetryAfter?: (err: unknown) => number | null | undefined;
 }
 
 const defaultInertiaFields = [
@@ -95,158 +589,1540 @@ const defaultInertiaFields = [
  *
  * @param form - The form object to watch (typically a reactive or ref object)
  * @param options - Configuration for debounce, lifecycle hooks, and field skipping
- * @returns An object with `isAutoSaving` and `blockWatcher()` for temporary disable
+ * @returns An object with `isAutoSaving`, save `status` refs and `blockWatcher()` for temporary disable
  */
 export function useAutoSaveForm(
   form: Record<string, unknown> | Ref<Record<string, unknown>>,
   options: UseAutoSaveFormOptions
 ) {
   const {
+    enabled = true,
     debounce = 3000,
+    maxWait,
+    leading = false,
     skipFields = [],
+    includeFields,
+    fields,
+    trigger = 'change',
+    interval = 10000,
     skipInertiaFields = true,
     deep = true,
     debug = false,
+    logger = debug ? consoleLogger : undefined,
+    logLevel = debug ? 'debug' : 'info',
+    metrics,
     serialize = JSON.stringify,
+    deserialize = JSON.parse,
     compare,
+    jsonPatch,
+    concurrency = 'parallel',
+    retry,
+    rateLimit,
+    offline,
+    draft,
+    history,
+    flushOnExit = false,
+    channel,
+    onBeacon,
+    validate,
     saveOnInit = false,
     onSave,
+    id,
+    coordinator = injectAutoSaveCoordinator(),
+    version: initialVersion = null,
+    onConflict = threeWayMerge,
     onBeforeSave,
     onAfterSave,
     onError,
+    parseError = defaultParseError,
+    parseRetryAfter = defaultParseRetryAfter,
   } = options;
 
+  if (!onSave && !(coordinator && coordinator.batching)) {
+    throw new Error('[AutoSave] onSave is required unless a coordinator batches saves.');
+  }
+
+  const events = createEventEmitter((type, err) => {
+    if (logger && logLevel !== 'silent') logger.error(`A "${type}" event handler threw:`, err);
+  });
+
+  /**
+   * Emits a diagnostic `log` event
+   */
+  const log = (level: AutoSaveEvents['log']['level'], message: string, data?: unknown) =>
+    events.emit('log', { level, message, data });
+
+  if (logger) attachLogger(events.on, logger, logLevel);
+
   /**
    * Indicates whether an auto-save is currently in progress
    */
   const isAutoSaving = ref(false);
 
   /**
-   * Controls whether changes should trigger auto-save
+   * Whether the form differs from the last successful save
    */
-  const shouldWatch = ref(true);
-
-  let cancelDebounce: () => void = () => {};
-  let cancelTempDebounce: () => void = () => {};
+  const isDirty = ref(saveOnInit);
 
   /**
-   * Temporarily blocks the watcher from triggering auto-save.
-   * @param ms - Duration in milliseconds to block (default: 1000ms)
+   * When the last successful save finished
    */
-  const blockWatcher = (ms = 1000) => {
-    shouldWatch.value = false;
-    cancelDebounce();
-    cancelTempDebounce();
-    setTimeout(() => {
-      shouldWatch.value = true;
-    }, ms);
-  };
+  const lastSavedAt = ref<Date | null>(null);
 
   /**
-   * Unblock auto-saving and perform save with optional custom delay
-   * @param ms - Custom delay in milliseconds (null = save immediately, default = null)
+   * Error from the last failed attempt, cleared on success
    */
-  const unblockWatcher = (ms: number | null = null) => {
-    shouldWatch.value = true;
-    cancelDebounce();
-    cancelTempDebounce();
-
-    if (ms === null) {
-      const current = getWatchedForm();
-      if (compare) {
-        previousObj = null;
-      } else {
-        previousSerialized = null;
-      }
-      save();
-    } else {
-      const tempDebounced = debounceFn(save, ms);
-      cancelTempDebounce = tempDebounced.cancel;
-      tempDebounced.call();
-    }
-  };
+  const lastError = ref<unknown>(null);
 
   /**
-   * Returns a filtered form object excluding skipped fields and Inertia helpers.
+   * This form's entry in the coordinator, for page-level state and batching.
+   * Registered before anything needs cleaning up, as a taken id throws.
    */
-  const getWatchedForm = (): Record<string, unknown> => {
-    const src: Record<string, unknown> = isRef(form) ? unref(form) as Record<string, unknown> : form;
-    const data: Record<string, unknown> = {};
-    for (const key of Object.keys(src)) {
-      if (skipInertiaFields && defaultInertiaFields.includes(key)) continue;
-      if (skipFields.includes(key)) continue;
-      data[key] = src[key];
-    }
-    return data;
-  };
-
-  let previousSerialized: string | null = saveOnInit ? null : serialize(getWatchedForm());
-  let previousObj: Record<string, unknown> | null = compare
-    ? (saveOnInit ? null : getWatchedForm())
+  const registration = coordinator
+    ? coordinator.register({ isDirty, isAutoSaving, lastError, flush: () => flush() }, id)
     : null;
 
   /**
-   * Internal function that performs the actual save if values changed
+   * Number of successful saves
    */
-  const save = () => {
-    if (!shouldWatch.value) return;
+  const saveCount = ref(0);
 
-    const current = getWatchedForm();
+  /**
+   * Number of saves queued while offline, waiting to be replayed
+   */
+  const queuedCount = ref(0);
 
-    if (compare) {
-      if (previousObj && compare(previousObj, current)) return;
-      previousObj = current;
+  /**
+   * Whether the browser reports a network connection
+   */
+  const isOnline = ref(isNavigatorOnline());
+
+  /**
+   * Server version of the last saved state, as returned by `onSave`
+   */
+  const version = ref<AutoSaveVersion | null>(initialVersion);
+
+  /**
+   * Whether an unsaved local draft from a previous session can be restored
+   */
+  const hasDraft = ref(false);
+
+  /**
+   * Field errors from the last `validate` run, empty when valid
+   */
+  const validationErrors = ref<AutoSaveValidationErrors>({});
+
+  /**
+   * Field errors from the last failed save, cleared per field when it changes again
+   */
+  const serverErrors = ref<AutoSaveValidationErrors>({});
+
+  /**
+   * Whether a save is waiting for the rate limit or a server's `Retry-After`
+   */
+  const isRateLimited = ref(false);
+
+  const isPending = ref(false);
+  const retryingSaves = ref(0);
+
+  /**
+   * Current save lifecycle state, derived from the flags above
+   */
+  const status = computed<AutoSaveStatus>(() => {
+    if (isAutoSaving.value && retryingSaves.value === 0) return 'saving';
+    if (queuedCount.value > 0 && !isOnline.value) return 'offline';
+    if (retryingSaves.value > 0) return 'error';
+    if (isPending.value) return 'pending';
+    if (isDirty.value) return lastError.value ? 'error' : 'dirty';
+    return lastSavedAt.value ? 'saved' : 'idle';
+  });
+
+  /**
+   * Controls whether changes should trigger auto-save
+   */
+  const shouldWatch = ref(true);
+
+  /**
+   * Whether auto-saving is paused with `pause()`
+   */
+  const isPaused = ref(false);
+
+  const isEnabled = computed(() => toOptionValue(enabled));
+  const getDebounce = () => toOptionValue(debounce);
+
+  /**
+   * Whether saves may run: not blocked, paused or disabled
+   */
+  const canSave = () => shouldWatch.value && !isPaused.value && isEnabled.value;
+
+  let cancelDebounce: () => void = () => {};
+  let cancelTempDebounce: () => void = () => {};
+  let blockTimer: ReturnType<typeof setTimeout> | undefined;
+
+  /**
+   * Temporarily blocks the watcher from triggering auto-save.
+   * @param ms - Duration in milliseconds to block (default: 1000ms)
+   */
+  const blockWatcher = (ms = 1000) => {
+    shouldWatch.value = false;
+    isPending.value = false;
+    cancelDebounce();
+    cancelTempDebounce();
+    cancelRateLimitedSave();
+    clearTimeout(blockTimer);
+    blockTimer = setTimeout(() => {
+      shouldWatch.value = true;
+    }, ms);
+    events.emit('blocked', { reason: 'watcher', ms });
+  };
+
+  /**
+   * Unblock auto-saving and perform save with optional custom delay
+   * @param ms - Custom delay in milliseconds (null = save immediately, default = null)
+   */
+  const unblockWatcher = (ms: number | null = null) => {
+    clearTimeout(blockTimer);
+    shouldWatch.value = true;
+    isPending.value = false;
+    cancelDebounce();
+    cancelTempDebounce();
+    cancelRateLimitedSave();
+
+    if (ms === null) {
+      save(true);
     } else {
-      const currentSerialized = serialize(current);
-      if (previousSerialized !== null && currentSerialized === previousSerialized) return;
-      previousSerialized = currentSerialized;
+      isPending.value = true;
+      const tempDebounced = debounceFn(() => {
+        isPending.value = false;
+        save();
+      }, ms);
+      cancelTempDebounce = tempDebounced.cancel;
+      tempDebounced.call();
+    }
+  };
+
+  const filterFields = computed(() => {
+    const skip = toOptionValue(skipFields);
+    return createFieldFilter({
+      skip: skipInertiaFields ? [...defaultInertiaFields, ...skip] : skip,
+      include: toOptionValue(includeFields),
+    });
+  });
+
+  /**
+   * Returns a filtered form object excluding skipped fields and Inertia helpers.
+   */
+  const getWatchedForm = (): Record<string, unknown> => {
+    const src: Record<string, unknown> = isRef(form) ? unref(form) as Record<string, unknown> : form;
+    return filterFields.value(src);
+  };
+
+  /**
+   * Writes the given top-level values back into the form
+   */
+  const writeForm = (data: Record<string, unknown>) => {
+    const target: Record<string, unknown> = isRef(form) ? form.value : form;
+    for (const key of Object.keys(data)) {
+      target[key] = data[key];
+    }
+  };
+
+  let silentWrites = 0;
+
+  /**
+   * Runs a write to the form without it being treated as a user edit
+   */
+  const writeSilently = (write: () => void) => {
+    silentWrites++;
+    try {
+      write();
+    } finally {
+      nextTick(() => {
+        silentWrites--;
+      });
+    }
+  };
+
+  /**
+   * Writes server-side data into the form without it being treated as a user edit
+   */
+  const applyRemote = (data: Record<string, unknown>) => {
+    writeSilently(() => writeForm(data));
+  };
+
+  /**
+   * The form if it is an Inertia form helper, whose errors mirror `serverErrors`
+   */
+  const getInertiaForm = (): InertiaErrorTarget | null => {
+    const target = (isRef(form) ? form.value : form) as Partial<InertiaErrorTarget>;
+    return typeof target.setError === 'function' && typeof target.clearErrors === 'function'
+      ? target as InertiaErrorTarget
+      : null;
+  };
+
+  /**
+   * Form state when `serverErrors` were last updated, to find the fields changed since
+   */
+  let serverErrorsBaseline: Record<string, unknown> | null = null;
+
+  const setServerErrors = (errors: AutoSaveValidationErrors) => {
+    serverErrors.value = errors;
+    serverErrorsBaseline = cloneSnapshot(getWatchedForm());
+    const inertiaForm = getInertiaForm();
+    if (!inertiaForm) return;
+    writeSilently(() => {
+      inertiaForm.clearErrors();
+      inertiaForm.setError(
+        Object.fromEntries(Object.entries(errors).map(([path, messages]) => [path, messages[0]]))
+      );
+    });
+  };
+
+  /**
+   * Removes the errors of the given fields, or all of them
+   */
+  const clearServerErrors = (paths = Object.keys(serverErrors.value)) => {
+    if (!paths.length) return;
+    const remaining = { ...serverErrors.value };
+    for (const path of paths) delete remaining[path];
+    serverErrors.value = remaining;
+    if (!Object.keys(remaining).length) serverErrorsBaseline = null;
+
+    const inertiaForm = getInertiaForm();
+    if (inertiaForm) writeSilently(() => inertiaForm.clearErrors(...paths));
+  };
+
+  /**
+   * Clears the errors of fields edited since the errors came in. An error also goes
+   * away when a field inside it or around it changes.
+   */
+  const clearChangedServerErrors = () => {
+    if (!serverErrorsBaseline) return;
+    const current = cloneSnapshot(getWatchedForm());
+    const changed = getLeafPaths(diffSnapshots(serverErrorsBaseline, current).changedPaths)
+      .map(toPathKey);
+    serverErrorsBaseline = current;
+    if (!changed.length) return;
+
+    clearServerErrors(Object.keys(serverErrors.value).filter((path) => {
+      const key = toPathKey(path);
+      return changed.some((leaf) => leaf === key
+        || leaf.startsWith(`${key}.`)
+        || key.startsWith(`${leaf}.`));
+    }));
+  };
+
+  /**
+   * Last successfully saved snapshot, used as the dirty baseline and for diffs
+   */
+  let savedSnapshot: Record<string, unknown> | null = saveOnInit
+    ? null
+    : cloneSnapshot(getWatchedForm());
+  let savedSerialized: string | null = savedSnapshot && !compare
+    ? serialize(savedSnapshot)
+    : null;
+
+  /**
+   * Last dispatched snapshot, used to skip saving the same state twice
+   */
+  let previousSnapshot = savedSnapshot;
+  let previousSerialized = savedSerialized;
+
+  const historyOptions = history === true ? {} : history || null;
+  const historyLimit = Math.max(1, historyOptions?.limit ?? 50);
+
+  /**
+   * Recorded snapshots, oldest first, and the position of the one the form is at
+   */
+  const historyEntries: Array<{ snapshot: Record<string, unknown>; serialized: string | null }> = [];
+  const historyIndex = ref(-1);
+  const historyLength = ref(0);
+
+  /**
+   * Whether the form has changes that aren't recorded in the history yet
+   */
+  const hasUnrecorded = ref(false);
+
+  /**
+   * Snapshots saved because of `undo()` / `redo()`, which must not be recorded again
+   */
+  const historySnapshots = new WeakSet<Record<string, unknown>>();
+  let navigatingHistory = false;
+
+  /**
+   * Compares a snapshot with `current` using `compare` or the serialized strings
+   */
+  const isSameSnapshot = (
+    snapshot: Record<string, unknown> | null,
+    serialized: string | null,
+    current: Record<string, unknown>,
+    currentSerialized: string | null
+  ) => {
+    if (!snapshot) return false;
+    return compare ? compare(snapshot, current) : serialized === currentSerialized;
+  };
+
+  /**
+   * Re-evaluates `isDirty` against the last successful save
+   */
+  const refreshDirty = () => {
+    const current = getWatchedForm();
+    isDirty.value = !isSameSnapshot(
+      savedSnapshot,
+      savedSerialized,
+      current,
+      compare ? null : serialize(current)
+    );
+  };
+
+  /**
+   * Whether the form differs from the current history entry
+   */
+  const refreshHistory = () => {
+    const entry = historyEntries[historyIndex.value];
+    if (!entry) return;
+    const current = getWatchedForm();
+    hasUnrecorded.value = !isSameSnapshot(
+      entry.snapshot,
+      entry.serialized,
+      current,
+      compare ? null : serialize(current)
+    );
+  };
+
+  /**
+   * Adds a snapshot after the current history entry, dropping the redo branch
+   */
+  const recordHistory = (snapshot: Record<string, unknown>, serialized: string | null) => {
+    if (!historyOptions) return;
+    const entry = historyEntries[historyIndex.value];
+    if (entry && isSameSnapshot(entry.snapshot, entry.serialized, snapshot, serialized)) return;
+
+    historyEntries.splice(historyIndex.value + 1);
+    historyEntries.push({ snapshot, serialized });
+    if (historyEntries.length > historyLimit) historyEntries.shift();
+    historyIndex.value = historyEntries.length - 1;
+    historyLength.value = historyEntries.length;
+    refreshHistory();
+  };
+
+  if (savedSnapshot) recordHistory(savedSnapshot, savedSerialized);
+
+  /**
+   * Values from `applyServerState` while saves were in flight, merged into
+   * their snapshots once they succeed
+   */
+  let pendingServerState: Record<string, unknown> | null = null;
+
+  let activeSaves = 0;
+  // Saves waiting in or running from `saveQueue`, so `isAutoSaving` holds between them
+  let queuedSaves = 0;
+  let activeController: AbortController | null = null;
+  let saveQueue: Promise<unknown> = Promise.resolve();
+  let trailingSave: { force: boolean } | null = null;
+
+  const activeRuns = new Set<Promise<boolean>>();
+  let validating: Promise<void> | null = null;
+  let validationSeq = 0;
+  let saveSeq = 0;
+  let savedSeq = 0;
+  const maxAttempts = Math.max(1, retry?.attempts ?? (retry ? 3 : 1));
+
+  const rateLimitSize = Math.max(1, rateLimit?.limit ?? 10);
+  const rateLimitWindow = rateLimit?.window ?? 60000;
+
+  /**
+   * Saves that may start right now, refilled continuously up to `rateLimit.limit`
+   */
+  let rateTokens = rateLimitSize;
+  let rateRefilledAt = Date.now();
+
+  /**
+   * No save starts before this time, set from a server's `Retry-After`
+   */
+  let retryAfterUntil = 0;
+
+  let rateLimitTimer: ReturnType<typeof setTimeout> | undefined;
+  let rateLimitedForce = false;
+  let rateLimitedBypass: RateLimitBypass = 'none';
+  let rateLimitedRun: { promise: Promise<void>; resolve: () => void } | null = null;
+
+  const refillRateTokens = () => {
+    const now = Date.now();
+    rateTokens = Math.min(
+      rateLimitSize,
+      rateTokens + ((now - rateRefilledAt) * rateLimitSize) / rateLimitWindow
+    );
+    rateRefilledAt = now;
+  };
+
+  /**
+   * Milliseconds until a save may start, 0 if it may start right away
+   */
+  const getRateLimitDelay = (bypass: RateLimitBypass = 'none') => {
+    if (bypass === 'all') return 0;
+    const retryDelay = Math.max(0, retryAfterUntil - Date.now());
+    if (!rateLimit || bypass === 'bucket') return retryDelay;
+    refillRateTokens();
+    const tokenDelay = rateTokens >= 1 ? 0 : ((1 - rateTokens) * rateLimitWindow) / rateLimitSize;
+    return Math.ceil(Math.max(retryDelay, tokenDelay));
+  };
+
+  const takeRateToken = () => {
+    if (!rateLimit) return;
+    refillRateTokens();
+    rateTokens--;
+  };
+
+  /**
+   * Saves the form once the rate limit allows it. Later calls move the save
+   * to the new delay instead of adding another one.
+   */
+  const deferSave = (force: boolean, bypass: RateLimitBypass, delay: number) => {
+    events.emit('blocked', { reason: 'rate-limit', ms: delay });
+    rateLimitedForce ||= force;
+    if (bypass !== 'none') rateLimitedBypass = bypass;
+    isRateLimited.value = true;
+    isPending.value = true;
+    if (!rateLimitedRun) {
+      let resolve!: () => void;
+      const promise = new Promise<void>((done) => {
+        resolve = done;
+      });
+      rateLimitedRun = { promise, resolve };
+    }
+    clearTimeout(rateLimitTimer);
+    rateLimitTimer = setTimeout(() => {
+      const force = rateLimitedForce;
+      const bypass = rateLimitedBypass;
+      cancelRateLimitedSave();
+      save(force, bypass);
+    }, delay);
+  };
+
+  const cancelRateLimitedSave = () => {
+    clearTimeout(rateLimitTimer);
+    rateLimitTimer = undefined;
+    rateLimitedForce = false;
+    rateLimitedBypass = 'none';
+    if (isRateLimited.value) isPending.value = false;
+    isRateLimited.value = false;
+    rateLimitedRun?.resolve();
+    rateLimitedRun = null;
+  };
+
+  /**
+   * Snapshots saved while offline, in order. Mirrored to `offline.storage`.
+   */
+  let offlineQueue: Array<{ snapshot: Record<string, unknown>; queuedAt: number }> = [];
+  let replaying: Promise<void> | null = null;
+
+  const persistQueue = () => {
+    if (!offline) return Promise.resolve();
+    queuedCount.value = offlineQueue.length;
+    const entries = offlineQueue.map(({ snapshot, queuedAt }) => ({
+      data: serialize(snapshot),
+      queuedAt,
+    }));
+    return Promise.resolve(
+      entries.length
+        ? offline.storage.setItem(offline.key, JSON.stringify(entries))
+        : offline.storage.removeItem(offline.key)
+    ).catch((err) => {
+      log('error', 'Could not persist offline queue:', err);
+    });
+  };
+
+  const queueReady: Promise<void> = offline
+    ? Promise.resolve()
+      .then(() => offline.storage.getItem(offline.key))
+      .then((stored) => {
+        if (!stored) return;
+        const entries: Array<{ data: string; queuedAt: number }> = JSON.parse(stored);
+        offlineQueue = [
+          ...entries.map(({ data, queuedAt }) => ({ snapshot: deserialize(data), queuedAt })),
+          ...offlineQueue,
+        ];
+        queuedCount.value = offlineQueue.length;
+      })
+      .catch((err) => {
+        log('error', 'Could not restore offline queue:', err);
+      })
+    : Promise.resolve();
+
+  const enqueueOffline = (snapshot: Record<string, unknown>) => {
+    log('info', 'Offline. Queued changes for later.');
+    offlineQueue.push({ snapshot, queuedAt: Date.now() });
+    persistQueue();
+  };
+
+  /**
+   * Replays queued offline saves in order. Stops at the first failure.
+   */
+  const flushQueue = (): Promise<void> => {
+    if (!offline) return Promise.resolve();
+
+    replaying ??= queueReady
+      .then(async () => {
+        while (offlineQueue.length && isNavigatorOnline()) {
+          const { snapshot } = offlineQueue[0];
+          const saved = await runSave(
+            snapshot,
+            compare ? null : serialize(snapshot),
+            ++saveSeq,
+            true
+          );
+          if (!saved) break;
+          offlineQueue.shift();
+          await persistQueue();
+        }
+      })
+      .finally(() => {
+        replaying = null;
+      });
+
+    return replaying;
+  };
+
+  /**
+   * Drops every queued offline save. The form stays dirty.
+   */
+  const discardQueue = (): Promise<void> =>
+    queueReady.then(() => {
+      offlineQueue = [];
+      previousSnapshot = savedSnapshot;
+      previousSerialized = savedSerialized;
+      return persistQueue();
+    });
+
+  let storedDraft: Record<string, unknown> | null = null;
+  let cancelDraftWrite: () => void = () => {};
+
+  const writeDraft = () => {
+    if (!draft || hasDraft.value) return;
+    const entry = { data: serialize(getWatchedForm()), updatedAt: Date.now() };
+    Promise.resolve(draft.storage.setItem(draft.key, JSON.stringify(entry))).catch((err) => {
+      log('error', 'Could not write draft:', err);
+    });
+  };
+
+  const clearDraft = () => {
+    if (!draft) return Promise.resolve();
+    cancelDraftWrite();
+    return Promise.resolve(draft.storage.removeItem(draft.key)).catch((err) => {
+      log('error', 'Could not clear draft:', err);
+    });
+  };
+
+  /**
+   * Mirrors the form into the draft while it has unsaved changes
+   */
+  const syncDraft = () => {
+    if (!draft || hasDraft.value) return;
+    if (!isDirty.value) {
+      clearDraft();
+    } else if (draft.debounce) {
+      const debouncedDraft = debounceFn(writeDraft, draft.debounce);
+      cancelDraftWrite();
+      cancelDraftWrite = debouncedDraft.cancel;
+      debouncedDraft.call();
+    } else {
+      writeDraft();
+    }
+  };
+
+  /**
+   * Applies the stored draft to the form. The restored changes are saved as usual.
+   */
+  const restoreDraft = () => {
+    if (!storedDraft) return;
+    const data = storedDraft;
+    storedDraft = null;
+    hasDraft.value = false;
+    writeForm(data);
+  };
+
+  /**
+   * Deletes the stored draft without applying it
+   */
+  const discardDraft = (): Promise<void> => {
+    storedDraft = null;
+    hasDraft.value = false;
+    return clearDraft();
+  };
+
+  if (draft) {
+    Promise.resolve()
+      .then(() => draft.storage.getItem(draft.key))
+      .then((stored) => {
+        if (!stored) return;
+        const { data, updatedAt }: { data: string; updatedAt: number } = JSON.parse(stored);
+        const savedAt = draft.savedAt != null ? new Date(draft.savedAt).getTime() : -Infinity;
+        const current = getWatchedForm();
+        if (updatedAt <= savedAt || data === serialize(current)) {
+          clearDraft();
+          return;
+        }
+        storedDraft = deserialize(data);
+        hasDraft.value = true;
+        log('info', 'Found an unsaved draft.');
+      })
+      .catch((err) => {
+        log('error', 'Could not read draft:', err);
+      });
+  }
+
+  /**
+   * Hands a save to the coordinator's batch, or to `onSave`
+   */
+  const callSave = (context: AutoSaveContext) => {
+    if (coordinator && coordinator.batching) return coordinator.enqueue(registration!.id, context);
+    return unref(onSave!)(context);
+  };
+
+  const createContext = (snapshot: Record<string, unknown>, signal: AbortSignal): AutoSaveContext => ({
+    snapshot,
+    previous: savedSnapshot,
+    ...diffSnapshots(savedSnapshot, snapshot),
+    ...(jsonPatch && {
+      patch: createJsonPatch(savedSnapshot, snapshot, jsonPatch === true ? {} : jsonPatch),
+    }),
+    version: version.value,
+    signal,
+  });
+
+  /**
+   * Moves the dirty baseline to a successfully saved snapshot and updates the save state
+   */
+  const markSaved = (
+    snapshot: Record<string, unknown>,
+    serialized: string | null,
+    seq: number,
+    duration = 0
+  ) => {
+    const fromHistory = historySnapshots.has(snapshot);
+    if (pendingServerState) {
+      snapshot = { ...snapshot, ...pendingServerState };
+      serialized = compare ? null : serialize(snapshot);
+      if (activeSaves <= 1) pendingServerState = null;
+    }
+    if (seq > savedSeq) {
+      savedSeq = seq;
+      savedSnapshot = snapshot;
+      savedSerialized = serialized;
+    }
+    saveCount.value++;
+    lastSavedAt.value = new Date();
+    lastError.value = null;
+    clearServerErrors();
+    refreshDirty();
+    if (!fromHistory) recordHistory(snapshot, serialized);
+    if (!isDirty.value) clearDraft();
+    if (tabs?.isLeader.value && savedSnapshot) {
+      tabs.post({
+        type: 'saved',
+        from: tabs.id,
+        data: savedSerialized ?? serialize(savedSnapshot),
+        version: version.value,
+      });
+    }
+    onAfterSave?.();
+    events.emit('save:success', { snapshot, version: version.value, duration });
+  };
+
+  /**
+   * Merges the local form with the server copy from a conflict, writes the
+   * result back into the form and saves it against the new server version
+   */
+  const resolveConflict = (err: AutoSaveConflictError, seq: number) => {
+    const base = savedSnapshot;
+    // Skipped fields aren't part of the saved state, or they would show up in the next diff
+    const remote = cloneSnapshot(filterFields.value(err.remote));
+    const local = cloneSnapshot(getWatchedForm());
+    log('warn', 'Save conflict. Merging with the server copy.');
+
+    return Promise.resolve(onConflict(local, remote, base)).then((merged) => {
+      if (err.version !== undefined) version.value = err.version;
+      savedSeq = Math.max(savedSeq, seq);
+      savedSnapshot = remote;
+      savedSerialized = compare ? null : serialize(remote);
+      previousSnapshot = savedSnapshot;
+      previousSerialized = savedSerialized;
+      applyRemote({ ...cloneSnapshot(err.remote), ...merged });
+      refreshDirty();
+      save();
+    });
+  };
+
+  /**
+   * Passes a settled save to the `metrics` hook
+   */
+  const reportMetrics = (
+    context: AutoSaveContext,
+    serialized: string | null,
+    report: Pick<AutoSaveMetrics, 'outcome' | 'duration' | 'retries' | 'error'>
+  ) => {
+    if (!metrics) return;
+    try {
+      metrics({
+        ...report,
+        bytes: getByteSize(serialized ?? serialize(context.snapshot)),
+        changedFields: getLeafPaths(context.changedPaths).length,
+      });
+    } catch (err) {
+      log('error', 'The metrics hook threw:', err);
+    }
+  };
+
+  /**
+   * Runs a single save with lifecycle hooks and retries. Resolves to whether
+   * the save succeeded once it settles or is aborted, never rejects.
+   * @param replay - Whether this replays an offline queue entry
+   */
+  const runSave = (
+    snapshot: Record<string, unknown>,
+    serialized: string | null,
+    seq: number,
+    replay = false
+  ): Promise<boolean> => {
+    let saved = false;
+    let attempts = 0;
+    let outcome: AutoSaveMetrics['outcome'] = 'error';
+    let failure: unknown;
+    const controller = new AbortController();
+    const { signal } = controller;
+    activeController = controller;
+    activeSaves++;
+    isAutoSaving.value = true;
+    const startedAt = Date.now();
+
+    const context = createContext(snapshot, signal);
+
+    const succeed = (result: void | AutoSaveResult) => {
+      saved = true;
+      outcome = 'success';
+      if (result && result.version !== undefined) version.value = result.version;
+      markSaved(snapshot, serialized, seq, Date.now() - startedAt);
+    };
+
+    const fail = (err: unknown, attempt = 1) => {
+      if (offline && !replay && !isNavigatorOnline()) {
+        outcome = 'offline';
+        enqueueOffline(snapshot);
+        return;
+      }
+
+      failure = err;
+      const fieldErrors = toValidationErrors(parseError(err));
+      if (fieldErrors && Object.keys(fieldErrors).length) {
+        // Keep the rejected snapshot as dispatched, so it is only sent again once edited
+        setServerErrors(fieldErrors);
+      } else if (previousSnapshot === snapshot) {
+        // Roll back so the failed change is picked up again by the next save
+        previousSnapshot = savedSnapshot;
+        previousSerialized = savedSerialized;
+      }
+      lastError.value = err;
+      refreshDirty();
+      onError?.(err);
+      events.emit('save:error', { error: err, attempt, retryIn: null });
+    };
+
+    const attempt = (n: number): Promise<void> =>
+      new Promise<void | AutoSaveResult>((resolve) => {
+        attempts = n;
+        events.emit('save:start', { context, attempt: n });
+        resolve(callSave(context));
+      })
+        .then((result) => {
+          if (!signal.aborted) succeed(result);
+        })
+        .catch((err) => {
+          if (signal.aborted) return;
+          if (err instanceof AutoSaveConflictError) {
+            return resolveConflict(err, seq).then(
+              () => {
+                outcome = 'conflict';
+              },
+              (conflictErr) => fail(conflictErr, n)
+            );
+          }
+
+          const retryAfter = parseRetryAfter(err) ?? 0;
+          retryAfterUntil = Math.max(retryAfterUntil, Date.now() + retryAfter);
+
+          const canRetry = n < maxAttempts
+            && savedSeq < seq
+            && !(err instanceof AutoSaveValidationError)
+            && (retry?.shouldRetry?.(err, n) ?? true);
+          if (!canRetry) return fail(err, n);
+
+          // Retries are requests too: wait for the rate limit and take a token
+          const delay = Math.max(getRetryDelay(n, retry!), getRateLimitDelay());
+          events.emit('save:error', { error: err, attempt: n, retryIn: delay });
+          lastError.value = err;
+          retryingSaves.value++;
+          return wait(delay, signal).then(() => {
+            retryingSaves.value--;
+            if (signal.aborted) return;
+            takeRateToken();
+            return attempt(n + 1);
+          });
+        });
+
+    const run = new Promise<boolean>((resolve) => {
+      let settled = false;
+
+      const finish = () => {
+        if (settled) return;
+        settled = true;
+        signal.removeEventListener('abort', finish);
+        const finalOutcome = signal.aborted && !saved ? 'aborted' : outcome;
+        reportMetrics(context, serialized, {
+          outcome: finalOutcome,
+          duration: Date.now() - startedAt,
+          retries: Math.max(0, attempts - 1),
+          ...(finalOutcome === 'error' && { error: failure }),
+        });
+        if (activeController === controller) activeController = null;
+        activeSaves--;
+        isAutoSaving.value = activeSaves + queuedSaves > 0;
+        resolve(saved);
+
+        if (trailingSave && activeSaves === 0) {
+          const { force } = trailingSave;
+          trailingSave = null;
+          save(force);
+        }
+      };
+
+      signal.addEventListener('abort', finish);
+
+      try {
+        onBeforeSave?.();
+      } catch (err) {
+        fail(err);
+        finish();
+        return;
+      }
+
+      attempt(1).finally(finish);
+    });
+
+    activeRuns.add(run);
+    run.then(() => activeRuns.delete(run));
+    return run;
+  };
+
+  /**
+   * Resolves once no save is in flight, queued or waiting to run as a trailing save
+   */
+  const whenIdle = (): Promise<void> => {
+    if (!activeRuns.size && !replaying && !trailingSave && !validating && !rateLimitedRun) {
+      return saveQueue.then(() => (activeRuns.size ? whenIdle() : undefined));
+    }
+    return Promise.all([...activeRuns, replaying, saveQueue, validating, rateLimitedRun?.promise])
+      .then(() => whenIdle());
+  };
+
+  /**
+   * Saves pending changes right away, skipping the debounce.
+   * Resolves when every resulting save has completed.
+   */
+  const flush = (): Promise<void> => flushWith('bucket');
+
+  /**
+   * Saves pending changes right away. `bypass` skips the rate limit: `bucket` for explicit
+   * flushes (which still wait for a server's `Retry-After`), `all` when the page is leaving.
+   */
+  const flushWith = (bypass: RateLimitBypass): Promise<void> => {
+    isPending.value = false;
+    cancelDebounce();
+    cancelTempDebounce();
+    if (bypass !== 'none') cancelRateLimitedSave();
+    save(false, bypass);
+    return whenIdle();
+  };
+
+  /**
+   * Flushes when the page is hidden or unloading, preferring `onBeacon` when given
+   */
+  const flushOnPageExit = () => {
+    if (!isDirty.value || !canSave()) return;
+
+    if (onBeacon) {
+      const current = cloneSnapshot(getWatchedForm());
+      const currentSerialized = compare ? null : serialize(current);
+      if (!isSameSnapshot(previousSnapshot, previousSerialized, current, currentSerialized)) {
+        isPending.value = false;
+        cancelDebounce();
+        cancelTempDebounce();
+        if (onBeacon(createContext(current, new AbortController().signal)) !== false) {
+          log('info', 'Sent pending changes with onBeacon.');
+          previousSnapshot = current;
+          previousSerialized = currentSerialized;
+          markSaved(current, currentSerialized, ++saveSeq);
+          return;
+        }
+      }
     }
 
-    if (debug) console.log('[AutoSave] Detected changes. Saving...');
-    isAutoSaving.value = true;
+    flushWith('all');
+  };
+
+  const onVisibilityChange = () => {
+    if (document.visibilityState === 'hidden') flushOnPageExit();
+  };
+
+  /**
+   * Internal function that performs the actual save if values changed
+   * @param force - Save even if nothing changed since the previous save
+   * @param bypass - Which rate limits to skip, see `flushWith`
+   */
+  const save = (force = false, bypass: RateLimitBypass = 'none') => {
+    if (!canSave()) {
+      events.emit('skip', {
+        reason: !shouldWatch.value ? 'blocked' : isPaused.value ? 'paused' : 'disabled',
+      });
+      return;
+    }
+
+    if (concurrency === 'coalesce' && activeSaves > 0) {
+      trailingSave = { force: force || !!trailingSave?.force };
+      return;
+    }
+
+    const current = cloneSnapshot(getWatchedForm());
+    const currentSerialized = compare ? null : serialize(current);
+
+    if (!force && isSameSnapshot(previousSnapshot, previousSerialized, current, currentSerialized)) {
+      events.emit('skip', { reason: 'unchanged' });
+      return;
+    }
+
+    // Followers don't send requests themselves, the leader's saves are limited
+    const rateLimitDelay = tabs && !tabs.isLeader.value ? 0 : getRateLimitDelay(bypass);
+    if (rateLimitDelay > 0) {
+      deferSave(force, bypass, rateLimitDelay);
+      return;
+    }
+
+    if (navigatingHistory) {
+      historySnapshots.add(current);
+    } else if (historyOptions?.includeUnsaved) {
+      recordHistory(current, currentSerialized);
+    }
+
+    if (!validate) {
+      dispatch(current, currentSerialized);
+      return;
+    }
+
+    const token = ++validationSeq;
+    const onValidated = (result: AutoSaveValidationResult) => {
+      if (token !== validationSeq) return;
+      const errors = toValidationErrors(result);
+      validationErrors.value = errors ?? {};
+      if (errors) {
+        events.emit('skip', { reason: 'invalid', errors });
+        return;
+      }
+      dispatch(current, currentSerialized);
+    };
+    const onValidationError = (err: unknown) => {
+      if (token !== validationSeq) return;
+      onError?.(err);
+      log('error', 'Validation threw:', err);
+    };
 
     try {
-      onBeforeSave?.();
+      const result = validate(current, {
+        previous: savedSnapshot,
+        changedPaths: diffSnapshots(savedSnapshot, current).changedPaths,
+      });
 
-      Promise.resolve(onSave())
-        .then(() => {
-          onAfterSave?.();
-          if (debug) console.log('[AutoSave] Save successful.');
-        })
-        .catch((err) => {
-          onError?.(err);
-          if (debug) console.error('[AutoSave] Save failed:', err);
-        })
-        .finally(() => {
-          isAutoSaving.value = false;
-        });
+      if (isPromiseLike(result)) {
+        const pending: Promise<void> = Promise.resolve(result)
+          .then(onValidated, onValidationError)
+          .finally(() => {
+            if (validating === pending) validating = null;
+          });
+        validating = pending;
+      } else {
+        onValidated(result);
+      }
     } catch (err) {
-      onError?.(err);
-      if (debug) console.error('[AutoSave] Immediate error:', err);
-      isAutoSaving.value = false;
+      onValidationError(err);
+    }
+  };
+
+  /**
+   * Starts saving a changed, valid snapshot according to `concurrency` and `offline`
+   */
+  const dispatch = (current: Record<string, unknown>, currentSerialized: string | null) => {
+    previousSnapshot = current;
+    previousSerialized = currentSerialized;
+
+    // Followers hand their changes to the leader tab instead of saving themselves
+    if (tabs && !tabs.isLeader.value) {
+      log('debug', 'Detected changes. Sending them to the leader tab...');
+      tabs.post({ type: 'change', from: tabs.id, data: serialize(diffSnapshots(savedSnapshot, current).diff) });
+      return;
+    }
+
+    // Keep saves in order behind anything still queued from being offline
+    if (offline && (!isNavigatorOnline() || offlineQueue.length || replaying)) {
+      enqueueOffline(current);
+      flushQueue();
+      return;
+    }
+
+    takeRateToken();
+    const seq = ++saveSeq;
+    const start = () => runSave(current, currentSerialized, seq);
+
+    switch (concurrency) {
+      case 'queue':
+        queuedSaves++;
+        isAutoSaving.value = true;
+        saveQueue = saveQueue.then(start).finally(() => {
+          queuedSaves--;
+          isAutoSaving.value = activeSaves + queuedSaves > 0;
+        });
+        break;
+      case 'abort':
+        if (activeController) {
+          log('debug', 'Aborting in-flight save.');
+          activeController.abort();
+        }
+        start();
+        break;
+      default:
+        start();
     }
   };
 
   /**
    * Debounced save logic using save
    */
-  const debounced = debounceFn(save, debounce);
+  const triggers = new Set(Array.isArray(trigger) ? trigger : [trigger]);
+  const saveOnChange = triggers.has('change') || triggers.has('idle');
+  let cancelIdle: () => void = () => {};
+
+  const debounced = debounceFn(() => {
+    if (triggers.has('idle')) {
+      cancelIdle();
+      cancelIdle = requestIdle(() => {
+        isPending.value = false;
+        save();
+      }, getDebounce());
+      return;
+    }
+    isPending.value = false;
+    save();
+  }, getDebounce(), { maxWait, leading });
   const debouncedSave = debounced.call;
-  cancelDebounce = debounced.cancel;
+  cancelDebounce = () => {
+    debounced.cancel();
+    cancelIdle();
+  };
+
+  const fieldRules = Object.entries(fields ?? {}).map(([pattern, rule]) => ({
+    matches: createPathMatcher(pattern),
+    getDelay: () => (rule.trigger === 'blur' ? null : rule.immediate ? 0 : rule.debounce ?? getDebounce()),
+  }));
+  let lastSeen = fieldRules.length ? cloneSnapshot(getWatchedForm()) : null;
+
+  /**
+   * Delay for a changed leaf path from the most specific matching `fields` rule
+   * (null = wait for blur)
+   */
+  const getFieldDelay = (path: string): number | null => {
+    const segments = parsePath(path);
+    for (let length = segments.length; length > 0; length--) {
+      const candidate = segments.slice(0, length).reduce<string>(joinPath, '');
+      const rule = fieldRules.find(({ matches }) => matches(candidate));
+      if (rule) return rule.getDelay();
+    }
+    return getDebounce();
+  };
+
+  /**
+   * Shortest delay among the fields changed since the last watcher run
+   */
+  const getChangeDelay = (): number | null => {
+    if (!lastSeen) return getDebounce();
+    const current = cloneSnapshot(getWatchedForm());
+    const { changedPaths } = diffSnapshots(lastSeen, current);
+    lastSeen = current;
+
+    const delays = getLeafPaths(changedPaths).map(getFieldDelay);
+    const scheduled = delays.filter((delay): delay is number => delay !== null);
+
+    if (delays.length && !scheduled.length) return null;
+    return scheduled.length ? Math.min(...scheduled) : getDebounce();
+  };
+
+  const onChange = () => {
+    refreshDirty();
+    if (historyOptions) refreshHistory();
+    if (silentWrites) {
+      if (lastSeen) lastSeen = cloneSnapshot(getWatchedForm());
+      if (serverErrorsBaseline) serverErrorsBaseline = cloneSnapshot(getWatchedForm());
+      return;
+    }
+    syncDraft();
+    clearChangedServerErrors();
+    if (events.has('change')) {
+      events.emit('change', {
+        changedPaths: diffSnapshots(savedSnapshot, cloneSnapshot(getWatchedForm())).changedPaths,
+      });
+    }
+
+    if (!saveOnChange) return;
+    const delay = getChangeDelay();
+    if (delay === null) return;
+
+    if (canSave() && isDirty.value) isPending.value = true;
+    debouncedSave(delay);
+  };
+
+  /**
+   * Saves unsaved changes right away, e.g. those held back by `trigger: 'blur'`.
+   * Call it from a field's blur event.
+   */
+  const handleBlur = (): Promise<void> => (isDirty.value ? flushWith('none') : whenIdle());
+
+  const onFocusOut = () => {
+    handleBlur();
+  };
+
+  /**
+   * Saves unsaved changes whenever the element (or anything inside it) loses focus.
+   * @returns A function removing the listener
+   */
+  const bindBlur = (el: EventTarget) => {
+    el.addEventListener('focusout', onFocusOut);
+    return () => el.removeEventListener('focusout', onFocusOut);
+  };
+
+  /**
+   * `v-autosave-blur` directive, the template counterpart of `bindBlur`
+   */
+  const vAutosaveBlur: ObjectDirective<HTMLElement> = {
+    mounted: (el) => {
+      el.addEventListener('focusout', onFocusOut);
+    },
+    beforeUnmount: (el) => {
+      el.removeEventListener('focusout', onFocusOut);
+    },
+  };
+
+  /**
+   * Whether `undo()` would change the form: there is an older entry or unrecorded changes to drop
+   */
+  const canUndo = computed(() => historyIndex.value > 0 || (historyIndex.value >= 0 && hasUnrecorded.value));
+
+  /**
+   * Whether `redo()` would change the form. New changes after an undo discard the redo entries.
+   */
+  const canRedo = computed(() => historyIndex.value < historyLength.value - 1 && !hasUnrecorded.value);
+
+  /**
+   * Writes a snapshot into the form without it counting as an edit, then saves it
+   */
+  const applySnapshot = (snapshot: Record<string, unknown>) => {
+    isPending.value = false;
+    cancelDebounce();
+    cancelTempDebounce();
+    applyRemote(cloneSnapshot(snapshot));
+    refreshDirty();
+    refreshHistory();
+    navigatingHistory = true;
+    try {
+      save();
+    } finally {
+      navigatingHistory = false;
+    }
+  };
+
+  /**
+   * Drops unrecorded changes, or goes back to the previous history entry and saves it
+   */
+  const undo = () => {
+    if (!canUndo.value) return;
+    if (!hasUnrecorded.value) historyIndex.value--;
+    applySnapshot(historyEntries[historyIndex.value].snapshot);
+  };
+
+  /**
+   * Goes forward to the next history entry and saves it
+   */
+  const redo = () => {
+    if (!canRedo.value) return;
+    historyIndex.value++;
+    applySnapshot(historyEntries[historyIndex.value].snapshot);
+  };
+
+  /**
+   * Puts the form back to the last successfully saved snapshot, dropping unsaved changes
+   */
+  const revertToLastSaved = () => {
+    if (!savedSnapshot) return;
+    recordHistory(savedSnapshot, savedSerialized);
+    applySnapshot(savedSnapshot);
+  };
+
+  /**
+   * Applies a JSON Patch returned by the server to the form and to the saved state,
+   * without it counting as an edit. Throws without changing the form if an operation fails.
+   */
+  const applyPatch = (patch: JsonPatchOperation[]) => {
+    const target: Record<string, unknown> = isRef(form) ? form.value : form;
+    // Patch a copy, so a failing operation leaves the form untouched
+    const result = applyJsonPatch(cloneSnapshot(target), patch);
+    writeSilently(() => {
+      for (const key of Object.keys(target)) {
+        if (!Object.hasOwn(result, key)) delete target[key];
+      }
+      for (const key of Object.keys(result)) {
+        if (!isDeepEqual(target[key], result[key])) target[key] = result[key];
+      }
+    });
+
+    if (savedSnapshot) {
+      const inSync = previousSnapshot === savedSnapshot;
+      try {
+        savedSnapshot = applyJsonPatch(cloneSnapshot(savedSnapshot), patch);
+        savedSerialized = compare ? null : serialize(savedSnapshot);
+        if (inSync) {
+          previousSnapshot = savedSnapshot;
+          previousSerialized = savedSerialized;
+        }
+      } catch (err) {
+        // The patch touches fields outside the snapshot; keep the baseline as is
+        log('warn', 'Could not apply the patch to the saved state:', err);
+      }
+    }
+    refreshDirty();
+    refreshHistory();
+  };
+
+  /**
+   * Writes data returned by the server (top-level fields) into the form and the
+   * saved state, without it counting as an edit
+   */
+  const applyServerState = (data: Record<string, unknown>) => {
+    applyRemote(data);
+    const values = cloneSnapshot(filterFields.value(data));
+
+    if (savedSnapshot) {
+      const inSync = previousSnapshot === savedSnapshot;
+      savedSnapshot = { ...savedSnapshot, ...values };
+      savedSerialized = compare ? null : serialize(savedSnapshot);
+      if (inSync) {
+        previousSnapshot = savedSnapshot;
+        previousSerialized = savedSerialized;
+      }
+    }
+    if (activeSaves > 0) pendingServerState = { ...pendingServerState, ...values };
+    refreshDirty();
+    refreshHistory();
+  };
+
+  /**
+   * Schedules a debounced save for changes made while saving was paused or disabled
+   */
+  const scheduleSave = () => {
+    if (!saveOnChange || !canSave() || !isDirty.value) return;
+    isPending.value = true;
+    debouncedSave(getDebounce());
+  };
+
+  /**
+   * Stops auto-saving until `resume()` is called. Changes are still tracked in `isDirty`.
+   */
+  const pause = () => {
+    isPaused.value = true;
+    isPending.value = false;
+    cancelDebounce();
+    cancelTempDebounce();
+    cancelRateLimitedSave();
+  };
+
+  /**
+   * Resumes auto-saving; changes made while paused are saved after the debounce
+   */
+  const resume = () => {
+    isPaused.value = false;
+    scheduleSave();
+  };
+
+  const stopEnabledWatch = watch(isEnabled, (value) => {
+    if (value) {
+      scheduleSave();
+    } else {
+      isPending.value = false;
+      cancelDebounce();
+      cancelTempDebounce();
+      cancelRateLimitedSave();
+    }
+  });
+
+  /**
+   * Re-filters the saved state when `skipFields` / `includeFields` change, so
+   * fields that start or stop being tracked don't count as changes
+   */
+  const stopFilterWatch = watch(filterFields, (filter) => {
+    if (savedSnapshot) {
+      const inSync = previousSnapshot === savedSnapshot;
+      savedSnapshot = isDirty.value ? filter(savedSnapshot) : cloneSnapshot(getWatchedForm());
+      savedSerialized = compare ? null : serialize(savedSnapshot);
+      if (inSync || !previousSnapshot) {
+        previousSnapshot = savedSnapshot;
+        previousSerialized = savedSerialized;
+      } else {
+        previousSnapshot = filter(previousSnapshot);
+        previousSerialized = compare ? null : serialize(previousSnapshot);
+      }
+    }
+    if (lastSeen) lastSeen = cloneSnapshot(getWatchedForm());
+    if (serverErrorsBaseline) serverErrorsBaseline = cloneSnapshot(getWatchedForm());
+    refreshDirty();
+    refreshHistory();
+  });
+
+  const intervalTimer = triggers.has('interval')
+    ? setInterval(() => {
+      if (isDirty.value) save();
+    }, interval)
+    : undefined;
 
   const stop = watch(
     form,
-    debouncedSave,
+    onChange,
     {
       deep,
       flush: 'post',
     }
   );
 
+  const onOnline = () => {
+    isOnline.value = isNavigatorOnline();
+    if (isOnline.value) flushQueue();
+  };
+
+  if (offline && typeof window !== 'undefined') {
+    window.addEventListener('online', onOnline);
+    window.addEventListener('offline', onOnline);
+    flushQueue();
+  }
+
+  if (flushOnExit && typeof window !== 'undefined') {
+    window.addEventListener('pagehide', flushOnPageExit);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+  }
+
+  /**
+   * Handles changes and saves shared by other tabs on the same `channel`
+   */
+  const onTabMessage = (message: Extract<TabMessage, { type: 'change' | 'saved' }>) => {
+    const data = deserialize(message.data);
+
+    // The leader saves a follower's changes on top of its own, as if they were made here
+    if (message.type === 'change') {
+      if (!tabs?.isLeader.value) return;
+      const merged = mergeDiff(cloneSnapshot(getWatchedForm()), data);
+      applyRemote(Object.fromEntries(
+        Object.keys(data).filter((key) => Object.hasOwn(merged, key)).map((key) => [key, merged[key]])
+      ));
+      refreshDirty();
+      save();
+      return;
+    }
+
+    // Only take over the saved state if there are no local edits waiting to be sent
+    const current = cloneSnapshot(getWatchedForm());
+    const hasLocalEdits = !isSameSnapshot(
+      previousSnapshot,
+      previousSerialized,
+      current,
+      compare ? null : serialize(current)
+    );
+
+    savedSeq = saveSeq;
+    savedSnapshot = data;
+    savedSerialized = compare ? null : serialize(data);
+    version.value = message.version;
+    lastSavedAt.value = new Date();
+    if (!hasLocalEdits) {
+      previousSnapshot = savedSnapshot;
+      previousSerialized = savedSerialized;
+      applyRemote(cloneSnapshot(data));
+    }
+    refreshDirty();
+    if (!isDirty.value) clearDraft();
+    log('debug', 'Applied a save from another tab.');
+  };
+
+  /**
+   * Tabs sharing `channel`; only the leader saves
+   */
+  const tabs = channel
+    ? createTabChannel(channel, {
+      onMessage: onTabMessage,
+      onLeaderChange: (leader) => {
+        log('info', `This tab is ${leader ? 'now' : 'no longer'} the leader.`);
+        // Save whatever followers sent while there was no leader
+        if (leader && isDirty.value) save(true);
+      },
+      onLeaderElected: (leaderId) => {
+        // A tab that wasn't leading yet may have dropped changes sent to it
+        if (leaderId !== tabs?.id && isDirty.value) save(true);
+      },
+    })
+    : null;
+
+  /**
+   * Whether this tab saves for every tab on the `channel` (always true without one)
+   */
+  const isLeader = tabs ? tabs.isLeader : ref(true);
+
   onScopeDispose(() => {
+    if (flushOnExit) {
+      if (typeof window !== 'undefined') {
+        window.removeEventListener('pagehide', flushOnPageExit);
+        document.removeEventListener('visibilitychange', onVisibilityChange);
+      }
+      if (isPending.value || isDirty.value) flushWith('all');
+    }
+    if (offline && typeof window !== 'undefined') {
+      window.removeEventListener('online', onOnline);
+      window.removeEventListener('offline', onOnline);
+    }
+    tabs?.close();
+    registration?.unregister();
+    unregisterDevtools();
     stop();
+    stopEnabledWatch();
+    stopFilterWatch();
     cancelDebounce();
     cancelTempDebounce();
+    // A save deferred by the rate limit still runs when flushing on exit
+    if (!flushOnExit) cancelRateLimitedSave();
+    cancelDraftWrite();
+    clearInterval(intervalTimer);
+    clearTimeout(blockTimer);
+  });
+
+  const unregisterDevtools = registerDevtoolsInstance({
+    id: registration?.id ?? id,
+    status,
+    isDirty,
+    lastSavedAt,
+    lastError,
+    version,
+    on: events.on,
   });
 
   if (saveOnInit) {
@@ -255,25 +2131,222 @@ export function useAutoSaveForm(
 
   return {
     isAutoSaving,
+    status,
+    isDirty,
+    lastSavedAt,
+    lastError,
+    saveCount,
+    version,
+    isOnline,
+    isLeader,
+    queuedCount,
+    flushQueue,
+    discardQueue,
+    hasDraft,
+    restoreDraft,
+    discardDraft,
+    canUndo,
+    canRedo,
+    undo,
+    redo,
+    revertToLastSaved,
+    applyPatch,
+    applyServerState,
+    flush,
+    handleBlur,
+    bindBlur,
+    vAutosaveBlur,
+    validationErrors,
+    serverErrors,
+    isRateLimited,
+    isPaused,
+    pause,
+    resume,
     blockWatcher,
     unblockWatcher,
+    on: events.on,
     stop,
   };
 }
 
 /**
- * Creates a debounced function with a cancel method
+ * Rate limits a save skips: none, the `rateLimit` token bucket, or also `Retry-After`
+ */
+type RateLimitBypass = 'none' | 'bucket' | 'all';
+
+/**
+ * Reads an option given as a plain value, ref or getter
+ */
+function toOptionValue<T>(value: MaybeRefOrGetter<T>): T {
+  return typeof value === 'function' ? (value as () => T)() : unref(value);
+}
+
+/**
+ * Minimal shape of Inertia's form error helpers
+ */
+interface InertiaErrorTarget {
+  setError: (errors: Record<string, string>) => void;
+  clearErrors: (...fields: string[]) => void;
+}
+
+/**
+ * Reads field errors from `AutoSaveValidationError`s and Axios-style 422 responses
+ */
+function defaultParseError(err: unknown) {
+  if (err instanceof AutoSaveValidationError) return err.errors;
+  const response = (err as { response?: { status?: number; data?: { errors?: unknown } } } | null)?.response;
+  const errors = response?.status === 422 ? response.data?.errors : undefined;
+  return errors && typeof errors === 'object'
+    ? errors as Record<string, string | string[]>
+    : null;
+}
+
+/**
+ * Reads the `Retry-After` header (seconds or an HTTP date) of `AutoSaveHttpError`s
+ * and Axios-style errors, in milliseconds
+ */
+function defaultParseRetryAfter(err: unknown) {
+  const headers = err instanceof AutoSaveHttpError
+    ? err.headers
+    : (err as { response?: { headers?: Record<string, unknown> } } | null)?.response?.headers;
+  const value = headers?.['retry-after'];
+  if (value == null || value === '') return null;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * UTF-8 size of a string in bytes
+ */
+function getByteSize(value: string) {
+  return new TextEncoder().encode(value).length;
+}
+
+/**
+ * Drops paths that are ancestors of other changed paths
+ */
+function getLeafPaths(changedPaths: string[]) {
+  return changedPaths.filter(
+    (path) => !changedPaths.some((other) => other !== path
+      && (other.startsWith(`${path}.`) || other.startsWith(`${path}[`)))
+  );
+}
+
+/**
+ * Normalizes `lines[0].amount` and Laravel-style `lines.0.amount` to the same key
  */
-function debounceFn(fn: () => void, delay: number) {
-  let timer: ReturnType<typeof setTimeout>;
+function toPathKey(path: string) {
+  return parsePath(path).join('.');
+}
+
+/**
+ * Creates a debounced function with a cancel method.
+ * `leading` invokes on the first call of a burst, `maxWait` caps how long
+ * calls can keep postponing the trailing invocation.
+ */
+function debounceFn(
+  fn: () => void,
+  delay: number,
+  options: { maxWait?: number; leading?: boolean } = {}
+) {
+  const { maxWait, leading = false } = options;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let maxTimer: ReturnType<typeof setTimeout> | undefined;
+  let hasTrailing = false;
+
+  const invokeTrailing = () => {
+    if (!hasTrailing) return;
+    hasTrailing = false;
+    fn();
+  };
+
+  const cancel = () => {
+    clearTimeout(timer);
+    clearTimeout(maxTimer);
+    timer = undefined;
+    maxTimer = undefined;
+    hasTrailing = false;
+  };
 
   return {
-    call: () => {
-      clearTimeout(timer);
-      timer = setTimeout(() => fn(), delay);
-    },
-    cancel: () => {
+    call: (wait = delay) => {
+      const isBurstStart = timer === undefined;
       clearTimeout(timer);
+
+      if (isBurstStart && leading) {
+        fn();
+      } else {
+        hasTrailing = true;
+      }
+
+      timer = setTimeout(() => {
+        clearTimeout(maxTimer);
+        timer = undefined;
+        maxTimer = undefined;
+        invokeTrailing();
+      }, wait);
+
+      if (maxWait !== undefined && maxTimer === undefined) {
+        maxTimer = setTimeout(() => {
+          maxTimer = undefined;
+          invokeTrailing();
+        }, maxWait);
+      }
     },
+    cancel,
   };
 }
+
+/**
+ * Runs `fn` in the next browser idle period, at the latest after `timeout` ms.
+ * Falls back to a timeout where `requestIdleCallback` isn't available.
+ * @returns A cancel function
+ */
+function requestIdle(fn: () => void, timeout: number) {
+  if (typeof requestIdleCallback === 'function') {
+    const id = requestIdleCallback(() => fn(), { timeout });
+    return () => cancelIdleCallback(id);
+  }
+  const id = setTimeout(fn, 1);
+  return () => clearTimeout(id);
+}
+
+/**
+ * Whether the value is a promise or thenable
+ */
+function isPromiseLike<T>(value: unknown): value is PromiseLike<T> {
+  return typeof (value as PromiseLike<T> | null)?.then === 'function';
+}
+
+/**
+ * Whether the browser reports a network connection (always true outside browsers)
+ */
+function isNavigatorOnline() {
+  return typeof navigator === 'undefined' || navigator.onLine !== false;
+}
+
+/**
+ * Exponential backoff delay for the given (1-based) failed attempt
+ */
+function getRetryDelay(attempt: number, options: AutoSaveRetryOptions) {
+  const { baseDelay = 1000, maxDelay = 30000, jitter = true } = options;
+  const delay = Math.min(maxDelay, baseDelay * 2 ** (attempt - 1));
+  return jitter ? Math.round(delay / 2 + Math.random() * (delay / 2)) : delay;
+}
+
+/**
+ * Resolves after `ms`, or as soon as the signal aborts
+ */
+function wait(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal.addEventListener('abort', done);
+  });
+}
@@ -0,0 +1,68 @@
+import type { AutoSaveEventSubscriber } from './events';
+
+export type AutoSaveLogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/**
+ * Receives log messages by level, e.g. `console`, a Sentry breadcrumb adapter or pino
+ */
+export interface AutoSaveLogger {
+  debug: (message: string, ...data: unknown[]) => void;
+  info: (message: string, ...data: unknown[]) => void;
+  warn: (message: string, ...data: unknown[]) => void;
+  error: (message: string, ...data: unknown[]) => void;
+}
+
+const levels: AutoSaveLogLevel[] = ['debug', 'info', 'warn', 'error', 'silent'];
+
+/**
+ * Prints to the console with an `[AutoSave]` prefix, as enabled by the `debug` option
+ */
+export const consoleLogger: AutoSaveLogger = {
+  debug: (message, ...data) => console.log(`[AutoSave] ${message}`, ...data),
+  info: (message, ...data) => console.log(`[AutoSave] ${message}`, ...data),
+  warn: (message, ...data) => console.warn(`[AutoSave] ${message}`, ...data),
+  error: (message, ...data) => console.error(`[AutoSave] ${message}`, ...data),
+};
+
+/**
+ * Logs the event stream to `logger`, dropping messages below `level`
+ * @returns A function detaching the logger
+ */
+export function attachLogger(
+  on: AutoSaveEventSubscriber,
+  logger: AutoSaveLogger,
+  level: AutoSaveLogLevel = 'info'
+) {
+  const minLevel = levels.indexOf(level);
+  const write = (messageLevel: Exclude<AutoSaveLogLevel, 'silent'>, message: string, ...data: unknown[]) => {
+    if (levels.indexOf(messageLevel) >= minLevel) logger[messageLevel](message, ...data);
+  };
+
+  const stops = [
+    on('skip', ({ reason, errors }) => {
+      if (reason === 'invalid') write('debug', 'Validation failed. Holding changes:', errors);
+    }),
+    on('save:start', ({ attempt }) => {
+      if (attempt === 1) write('debug', 'Detected changes. Saving...');
+    }),
+    on('save:success', () => write('info', 'Save successful.')),
+    on('save:error', ({ error, retryIn }) => {
+      if (retryIn === null) {
+        write('error', 'Save failed:', error);
+      } else {
+        write('warn', `Save failed, retrying in ${retryIn}ms:`, error);
+      }
+    }),
+    on('blocked', ({ reason, ms }) => {
+      if (reason === 'rate-limit') write('info', `Rate limited. Saving in ${ms}ms.`);
+    }),
+    on('log', ({ level: messageLevel, message, data }) => {
+      if (data === undefined) {
+        write(messageLevel, message);
+      } else {
+        write(messageLevel, message, data);
+      }
+    }),
+  ];
+  return () => stops.forEach((stop) => stop());
+}
@@ -0,0 +1,55 @@
+import { isDeepEqual, isPlainObject } from './diff';
+
+export interface ThreeWayMergeOptions {
+  /**
+   * Which side wins when both changed the same value (default: 'local')
+   */
+  prefer?: 'local' | 'remote';
+}
+
+/**
+ * Three-way merge for plain objects. Keys changed on only one side take that
+ * side's value, nested objects are merged recursively, and true conflicts are
+ * resolved by `prefer`. Arrays and other values are compared as a whole.
+ *
+ * @param local - The local form state
+ * @param remote - The current server state
+ * @param base - The last state both sides agreed on (null if unknown)
+ */
+export function threeWayMerge(
+  local: Record<string, unknown>,
+  remote: Record<string, unknown>,
+  base: Record<string, unknown> | null,
+  options: ThreeWayMergeOptions = {}
+): Record<string, unknown> {
+  const { prefer = 'local' } = options;
+  const ancestor = base ?? {};
+  const merged: Record<string, unknown> = {};
+
+  for (const key of new Set([...Object.keys(local), ...Object.keys(remote)])) {
+    const l = local[key];
+    const r = remote[key];
+    const b = ancestor[key];
+    const inLocal = key in local;
+    const inRemote = key in remote;
+
+    let value: unknown;
+    let keep: boolean;
+
+    if (isDeepEqual(l, b) && inLocal === key in ancestor) {
+      [value, keep] = [r, inRemote];
+    } else if (isDeepEqual(r, b) && inRemote === key in ancestor) {
+      [value, keep] = [l, inLocal];
+    } else if (isPlainObject(l) && isPlainObject(r)) {
+      [value, keep] = [threeWayMerge(l, r, isPlainObject(b) ? b : null, options), true];
+    } else if (prefer === 'local') {
+      [value, keep] = [l, inLocal];
+    } else {
+      [value, keep] = [r, inRemote];
+    }
+
+    if (keep) merged[key] = value;
+  }
+
+  return merged;
+}
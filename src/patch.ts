@@ -0,0 +1,284 @@
+import { cloneSnapshot, isDeepEqual, isPlainObject } from './diff';
+
+/**
+ * A single JSON Patch (RFC 6902) operation
+ */
+export type JsonPatchOperation =
+  | { op: 'add' | 'replace' | 'test'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'move' | 'copy'; from: string; path: string };
+
+export interface JsonPatchOptions {
+  /**
+   * How arrays are compared (default: 'index'):
+   * - `index`: item by item, adding or removing at the end
+   * - `id`: items are matched by `idKey`, producing `move`s for reordered items.
+   *   Arrays with items lacking a unique id are compared by index.
+   */
+  arrays?: 'index' | 'id';
+
+  /**
+   * Identity key of array items for `arrays: 'id'` (default: 'id')
+   */
+  idKey?: string;
+}
+
+const escapeToken = (key: string | number) => String(key).replace(/~/g, '~0').replace(/\//g, '~1');
+
+const unescapeToken = (token: string) => token.replace(/~1/g, '/').replace(/~0/g, '~');
+
+const joinPointer = (base: string, key: string | number) => `${base}/${escapeToken(key)}`;
+
+/**
+ * Returns the id of every item, or null if an item has no id or ids repeat
+ */
+const getIds = (items: unknown[], idKey: string): unknown[] | null => {
+  const ids = items.map((item) => (isPlainObject(item) ? item[idKey] : undefined));
+  if (ids.some((id) => id === undefined) || new Set(ids).size !== ids.length) return null;
+  return ids;
+};
+
+const diffValue = (
+  a: unknown,
+  b: unknown,
+  path: string,
+  ops: JsonPatchOperation[],
+  options: Required<JsonPatchOptions>
+) => {
+  if (isDeepEqual(a, b)) return;
+
+  if (isPlainObject(a) && isPlainObject(b)) {
+    for (const key of Object.keys(a)) {
+      if (!(key in b)) ops.push({ op: 'remove', path: joinPointer(path, key) });
+    }
+    for (const key of Object.keys(b)) {
+      if (key in a) {
+        diffValue(a[key], b[key], joinPointer(path, key), ops, options);
+      } else {
+        ops.push({ op: 'add', path: joinPointer(path, key), value: cloneSnapshot(b[key]) });
+      }
+    }
+    return;
+  }
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    if (options.arrays === 'id') {
+      const before = getIds(a, options.idKey);
+      const after = getIds(b, options.idKey);
+      if (before && after) {
+        diffArrayById(a, b, before, after, path, ops, options);
+        return;
+      }
+    }
+    diffArrayByIndex(a, b, path, ops, options);
+    return;
+  }
+
+  ops.push({ op: 'replace', path, value: cloneSnapshot(b) });
+};
+
+const diffArrayByIndex = (
+  a: unknown[],
+  b: unknown[],
+  path: string,
+  ops: JsonPatchOperation[],
+  options: Required<JsonPatchOptions>
+) => {
+  const common = Math.min(a.length, b.length);
+  for (let i = 0; i < common; i++) {
+    diffValue(a[i], b[i], joinPointer(path, i), ops, options);
+  }
+  for (let i = a.length - 1; i >= b.length; i--) {
+    ops.push({ op: 'remove', path: joinPointer(path, i) });
+  }
+  for (let i = common; i < b.length; i++) {
+    ops.push({ op: 'add', path: joinPointer(path, i), value: cloneSnapshot(b[i]) });
+  }
+};
+
+/**
+ * Removes dropped items, then walks the target order moving or adding items
+ * while tracking the array the patch has produced so far
+ */
+const diffArrayById = (
+  a: unknown[],
+  b: unknown[],
+  before: unknown[],
+  after: unknown[],
+  path: string,
+  ops: JsonPatchOperation[],
+  options: Required<JsonPatchOptions>
+) => {
+  const kept = new Set(after);
+  const items = a.slice();
+  const ids = before.slice();
+
+  for (let i = ids.length - 1; i >= 0; i--) {
+    if (kept.has(ids[i])) continue;
+    ops.push({ op: 'remove', path: joinPointer(path, i) });
+    items.splice(i, 1);
+    ids.splice(i, 1);
+  }
+
+  for (let i = 0; i < b.length; i++) {
+    const from = ids.indexOf(after[i], i);
+    if (from === -1) {
+      ops.push({ op: 'add', path: joinPointer(path, i), value: cloneSnapshot(b[i]) });
+      items.splice(i, 0, b[i]);
+      ids.splice(i, 0, after[i]);
+      continue;
+    }
+    if (from !== i) {
+      ops.push({ op: 'move', from: joinPointer(path, from), path: joinPointer(path, i) });
+      items.splice(i, 0, ...items.splice(from, 1));
+      ids.splice(i, 0, ...ids.splice(from, 1));
+    }
+    diffValue(items[i], b[i], joinPointer(path, i), ops, options);
+  }
+};
+
+/**
+ * Computes a JSON Patch (RFC 6902) that turns `previous` into `current`.
+ *
+ * @param previous - The last saved snapshot (or null if nothing was saved yet)
+ * @param current - The snapshot about to be saved
+ * @param options - Array diffing strategy
+ */
+export function createJsonPatch(
+  previous: Record<string, unknown> | null,
+  current: Record<string, unknown>,
+  options: JsonPatchOptions = {}
+): JsonPatchOperation[] {
+  const ops: JsonPatchOperation[] = [];
+  diffValue(previous ?? {}, current, '', ops, {
+    arrays: options.arrays ?? 'index',
+    idKey: options.idKey ?? 'id',
+  });
+  return ops;
+}
+
+/**
+ * Tokens that would reach `Object.prototype` instead of the document
+ */
+const unsafeTokens = new Set(['__proto__', 'constructor', 'prototype']);
+
+const parsePointer = (pointer: string): string[] => {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) throw new Error(`Invalid JSON Pointer "${pointer}"`);
+  const tokens = pointer.slice(1).split('/').map(unescapeToken);
+  if (tokens.some((token) => unsafeTokens.has(token))) {
+    throw new Error(`Unsafe JSON Pointer "${pointer}"`);
+  }
+  return tokens;
+};
+
+const toIndex = (container: unknown[], token: string, path: string, allowEnd: boolean) => {
+  const index = token === '-' ? container.length : Number(token);
+  const max = allowEnd ? container.length : container.length - 1;
+  if (!/^(0|[1-9]\d*|-)$/.test(token) || index > max) {
+    throw new Error(`Array index out of bounds at "${path}"`);
+  }
+  return index;
+};
+
+/**
+ * Resolves the container holding the last token of a pointer
+ */
+const resolveParent = (document: unknown, path: string) => {
+  const tokens = parsePointer(path);
+  const key = tokens.pop()!;
+  let parent = document;
+  for (const token of tokens) {
+    if (Array.isArray(parent)) {
+      parent = parent[toIndex(parent, token, path, false)];
+    } else if (parent !== null && typeof parent === 'object' && Object.hasOwn(parent, token)) {
+      parent = (parent as Record<string, unknown>)[token];
+    } else {
+      throw new Error(`Path "${path}" does not exist`);
+    }
+  }
+  if (parent === null || typeof parent !== 'object') {
+    throw new Error(`Path "${path}" does not exist`);
+  }
+  return { parent: parent as Record<string, unknown> | unknown[], key };
+};
+
+const getValue = (document: unknown, path: string): unknown => {
+  if (path === '') return document;
+  const { parent, key } = resolveParent(document, path);
+  if (Array.isArray(parent)) return parent[toIndex(parent, key, path, false)];
+  if (!Object.hasOwn(parent, key)) throw new Error(`Path "${path}" does not exist`);
+  return parent[key];
+};
+
+const removeValue = (document: unknown, path: string): unknown => {
+  const { parent, key } = resolveParent(document, path);
+  if (Array.isArray(parent)) return parent.splice(toIndex(parent, key, path, false), 1)[0];
+  if (!Object.hasOwn(parent, key)) throw new Error(`Path "${path}" does not exist`);
+  const value = parent[key];
+  delete parent[key];
+  return value;
+};
+
+const addValue = (document: unknown, path: string, value: unknown) => {
+  const { parent, key } = resolveParent(document, path);
+  if (Array.isArray(parent)) {
+    parent.splice(toIndex(parent, key, path, true), 0, value);
+  } else {
+    parent[key] = value;
+  }
+};
+
+const replaceValue = (document: unknown, path: string, value: unknown) => {
+  const { parent, key } = resolveParent(document, path);
+  if (Array.isArray(parent)) {
+    parent[toIndex(parent, key, path, false)] = value;
+  } else {
+    if (!Object.hasOwn(parent, key)) throw new Error(`Path "${path}" does not exist`);
+    parent[key] = value;
+  }
+};
+
+/**
+ * Applies a JSON Patch (RFC 6902) to a document in place, e.g. a patch returned by
+ * the server to a reactive form. Throws if an operation can't be applied or a
+ * `test` fails; operations before it stay applied.
+ *
+ * @returns The patched document (a new value if the patch replaces the root)
+ */
+export function applyJsonPatch<T>(document: T, patch: JsonPatchOperation[]): T {
+  let result: unknown = document;
+
+  for (const operation of patch) {
+    switch (operation.op) {
+      case 'add':
+      case 'replace':
+        if (operation.path === '') {
+          result = cloneSnapshot(operation.value);
+        } else if (operation.op === 'add') {
+          addValue(result, operation.path, cloneSnapshot(operation.value));
+        } else {
+          replaceValue(result, operation.path, cloneSnapshot(operation.value));
+        }
+        break;
+      case 'remove':
+        removeValue(result, operation.path);
+        break;
+      case 'move':
+        if (operation.from !== operation.path) {
+          addValue(result, operation.path, removeValue(result, operation.from));
+        }
+        break;
+      case 'copy':
+        addValue(result, operation.path, cloneSnapshot(getValue(result, operation.from)));
+        break;
+      case 'test':
+        if (!isDeepEqual(getValue(result, operation.path), operation.value)) {
+          throw new Error(`Test failed at "${operation.path}"`);
+        }
+        break;
+    }
+  }
+
+  return result as T;
+}
@@ -0,0 +1,178 @@
+import { toRaw } from 'vue';
+import { isPlainObject, joinPath } from './diff';
+
+/**
+ * A field to match while building the watched snapshot. Either:
+ * - a dot-path pattern: `name`, `address.*`, `lines[*].tempId`, `meta.**`
+ *   (`*` matches one key or index, `[*]` one index, `**` any number of segments)
+ * - a predicate called with the path (`lines[0].tempId`) and value of every field
+ */
+export type FieldMatcher = string | ((path: string, value: unknown) => boolean);
+
+type PatternSegment = string | number | typeof ANY | typeof ANY_INDEX | typeof ANY_DEPTH;
+
+const ANY = Symbol('*');
+const ANY_INDEX = Symbol('[*]');
+const ANY_DEPTH = Symbol('**');
+
+/**
+ * Splits a dot / bracket path into segments, e.g. `lines[0].tempId` into `['lines', 0, 'tempId']`
+ */
+export function parsePath(path: string): Array<string | number> {
+  const segments: Array<string | number> = [];
+  for (const part of path.match(/[^.[\]]+|\[[^\]]*\]/g) ?? []) {
+    if (part.startsWith('[')) {
+      const index = part.slice(1, -1);
+      segments.push(/^\d+$/.test(index) ? Number(index) : index);
+    } else {
+      segments.push(part);
+    }
+  }
+  return segments;
+}
+
+const parsePattern = (pattern: string): PatternSegment[] =>
+  (pattern.match(/[^.[\]]+|\[[^\]]*\]/g) ?? []).map((part) => {
+    if (part === '**') return ANY_DEPTH;
+    if (part === '*') return ANY;
+    if (part === '[*]') return ANY_INDEX;
+    if (part.startsWith('[')) {
+      const index = part.slice(1, -1);
+      return /^\d+$/.test(index) ? Number(index) : index;
+    }
+    return part;
+  });
+
+const matchSegment = (pattern: PatternSegment, segment: string | number) => {
+  if (pattern === ANY) return true;
+  if (pattern === ANY_INDEX) return typeof segment === 'number';
+  return String(pattern) === String(segment);
+};
+
+/**
+ * Matches path segments against a pattern. With `partial`, also returns true
+ * when the path is an ancestor of something the pattern could match.
+ */
+const matchPattern = (
+  pattern: PatternSegment[],
+  path: Array<string | number>,
+  partial: boolean,
+  pi = 0,
+  si = 0
+): boolean => {
+  if (si === path.length) {
+    if (partial && pi < pattern.length) return true;
+    return pattern.slice(pi).every((segment) => segment === ANY_DEPTH);
+  }
+  if (pi === pattern.length) return false;
+
+  if (pattern[pi] === ANY_DEPTH) {
+    return matchPattern(pattern, path, partial, pi + 1, si)
+      || matchPattern(pattern, path, partial, pi, si + 1);
+  }
+
+  return matchSegment(pattern[pi], path[si])
+    && matchPattern(pattern, path, partial, pi + 1, si + 1);
+};
+
+/**
+ * Creates a function testing whether a path (`items[0].name`) matches a
+ * pattern (`items.*.name`), using the same syntax as `FieldMatcher` strings.
+ */
+export function createPathMatcher(pattern: string): (path: string) => boolean {
+  const segments = parsePattern(pattern);
+  return (path) => matchPattern(segments, parsePath(path), false);
+}
+
+interface CompiledMatcher {
+  matches: (segments: Array<string | number>, path: string, value: unknown) => boolean;
+  mayMatchBelow: (segments: Array<string | number>) => boolean;
+  nested: boolean;
+}
+
+const compileMatcher = (matcher: FieldMatcher): CompiledMatcher => {
+  if (typeof matcher === 'function') {
+    return {
+      matches: (_, path, value) => matcher(path, value),
+      mayMatchBelow: () => true,
+      nested: true,
+    };
+  }
+
+  const pattern = parsePattern(matcher);
+  return {
+    matches: (segments) => matchPattern(pattern, segments, false),
+    mayMatchBelow: (segments) => matchPattern(pattern, segments, true),
+    nested: pattern.length > 1 || pattern[0] === ANY_DEPTH,
+  };
+};
+
+export interface FieldFilterOptions {
+  /**
+   * Fields to leave out of the snapshot
+   */
+  skip?: FieldMatcher[];
+
+  /**
+   * Only these fields (and their children) are kept, if given
+   */
+  include?: FieldMatcher[];
+}
+
+/**
+ * Creates a function that copies the watched parts of a form, dropping skipped
+ * fields at any depth. Only containers that need filtering are copied; other
+ * values are returned by reference.
+ */
+export function createFieldFilter(options: FieldFilterOptions) {
+  const skip = (options.skip ?? []).map(compileMatcher);
+  const include = options.include?.map(compileMatcher);
+  const nested = !!include || skip.some((matcher) => matcher.nested);
+
+  const isSkipped = (segments: Array<string | number>, path: string, value: unknown) =>
+    skip.some((matcher) => matcher.matches(segments, path, value));
+
+  const filterValue = (
+    value: unknown,
+    segments: Array<string | number>,
+    path: string,
+    included: boolean
+  ): unknown => {
+    const raw = toRaw(value);
+    const isArray = Array.isArray(raw);
+    if (!isArray && !isPlainObject(raw)) return value;
+
+    const list: unknown[] = [];
+    const record: Record<string, unknown> = {};
+    const keys: Array<string | number> = isArray ? raw.map((_, i) => i) : Object.keys(raw);
+
+    for (const key of keys) {
+      const child = (raw as Record<string | number, unknown>)[key];
+      const childSegments = [...segments, key];
+      const childPath = joinPath(path, key);
+      if (isSkipped(childSegments, childPath, child)) continue;
+
+      let childIncluded = included;
+      if (!included && include) {
+        childIncluded = include.some((matcher) => matcher.matches(childSegments, childPath, child));
+        if (!childIncluded && !include.some((matcher) => matcher.mayMatchBelow(childSegments))) {
+          continue;
+        }
+      }
+
+      const filtered = nested ? filterValue(child, childSegments, childPath, childIncluded) : child;
+      if (!childIncluded && isPlainObject(filtered) && !Object.keys(filtered).length) continue;
+
+      if (isArray) {
+        list.push(filtered);
+      } else {
+        record[key] = filtered;
+      }
+    }
+
+    return isArray ? list : record;
+  };
+
+  return (src: Record<string, unknown>): Record<string, unknown> =>
+    filterValue(src, [], '', !include) as Record<string, unknown>;
+}
@@ -0,0 +1,65 @@
+import { computed, unref, type Ref } from 'vue';
+import { cloneSnapshot, isDeepEqual } from './diff';
+import { useAutoSaveForm, type UseAutoSaveFormOptions } from './index';
+
+/**
+ * Minimal shape of a Pinia store, so Pinia stays optional
+ */
+export interface PiniaStoreLike {
+  $state: Record<string, unknown>;
+}
+
+export interface UseAutoSaveStoreOptions extends UseAutoSaveFormOptions {
+  /**
+   * Key of the state object to save, e.g. `draft` for `store.draft` (default: the whole state)
+   */
+  slice?: string;
+}
+
+/**
+ * Auto-saves a Pinia store's state, or one object in it, with the same options as
+ * `useAutoSaveForm`. Store changes made synchronously by `onSave`, or inside
+ * `applyServerPatch()` (e.g. with the server response), update the saved state
+ * instead of triggering another save.
+ *
+ * @param store - The Pinia store
+ * @param options - `slice` plus the `useAutoSaveForm` options
+ * @returns The same values as `useAutoSaveForm`, plus `applyServerPatch`
+ */
+export function useAutoSaveStore(store: PiniaStoreLike, options: UseAutoSaveStoreOptions) {
+  const { slice, onSave, ...formOptions } = options;
+
+  const state = computed(
+    () => (slice ? store.$state[slice] : store.$state) as Record<string, unknown>
+  );
+
+  /**
+   * Runs `update` and writes the top-level fields it changed into the saved state,
+   * so they don't count as edits. Edits made elsewhere meanwhile are still saved.
+   *
+   * @example
+   * applyServerPatch(() => store.$patch({ draft: { updatedAt: data.updatedAt } }))
+   */
+  const applyServerPatch = <T>(update: () => T): T => {
+    const before = cloneSnapshot(state.value);
+    try {
+      return update();
+    } finally {
+      const after = state.value;
+      const changed = Object.keys(after).filter((key) => !isDeepEqual(before[key], after[key]));
+      if (changed.length) {
+        autoSave.applyServerState(Object.fromEntries(changed.map((key) => [key, after[key]])));
+      }
+    }
+  };
+
+  const autoSave = useAutoSaveForm(state as Ref<Record<string, unknown>>, {
+    ...formOptions,
+    onSave: onSave && ((context) => applyServerPatch(() => unref(onSave)(context))),
+  });
+
+  return {
+    ...autoSave,
+    applyServerPatch,
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * Minimal key/value storage used for persisting offline saves.
+ * Methods may be sync (localStorage) or async (IndexedDB).
+ */
+export interface AutoSaveStorage {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+}
+
+/**
+ * Storage adapter backed by `localStorage` (or any Web Storage, e.g. `sessionStorage`).
+ */
+export function localStorageAdapter(storage?: Storage): AutoSaveStorage {
+  const target = () => storage ?? window.localStorage;
+
+  return {
+    getItem: (key) => target().getItem(key),
+    setItem: (key, value) => target().setItem(key, value),
+    removeItem: (key) => target().removeItem(key),
+  };
+}
+
+/**
+ * In-memory storage adapter, handy for tests and SSR.
+ */
+export function memoryStorage(initial: Record<string, string> = {}): AutoSaveStorage {
+  const entries = new Map(Object.entries(initial));
+
+  return {
+    getItem: (key) => entries.get(key) ?? null,
+    setItem: (key, value) => {
+      entries.set(key, value);
+    },
+    removeItem: (key) => {
+      entries.delete(key);
+    },
+  };
+}
+
+export interface IndexedDBStorageOptions {
+  /**
+   * Database name (default: 'vue-auto-save')
+   */
+  dbName?: string;
+
+  /**
+   * Object store name (default: 'entries')
+   */
+  storeName?: string;
+}
+
+/**
+ * Storage adapter backed by IndexedDB, for larger payloads than localStorage allows.
+ * The database is opened lazily on first access.
+ */
+export function indexedDBStorage(options: IndexedDBStorageOptions = {}): AutoSaveStorage {
+  const { dbName = 'vue-auto-save', storeName = 'entries' } = options;
+  let db: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    db ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(dbName, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(storeName);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return db;
+  };
+
+  const run = <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest) =>
+    open().then(
+      (database) =>
+        new Promise<T>((resolve, reject) => {
+          const request = fn(database.transaction(storeName, mode).objectStore(storeName));
+          request.onsuccess = () => resolve(request.result as T);
+          request.onerror = () => reject(request.error);
+        })
+    );
+
+  return {
+    getItem: (key) =>
+      run<string | undefined>('readonly', (store) => store.get(key)).then((value) => value ?? null),
+    setItem: (key, value) => run<void>('readwrite', (store) => store.put(value, key)).then(() => {}),
+    removeItem: (key) => run<void>('readwrite', (store) => store.delete(key)).then(() => {}),
+  };
+}
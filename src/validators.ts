@@ -0,0 +1,126 @@
+import { unref, type Ref } from 'vue';
+import { joinPath } from './diff';
+
+/**
+ * Field path (`address.city`, `lines[0].amount`) to error messages
+ */
+export type AutoSaveValidationErrors = Record<string, string[]>;
+
+/**
+ * What a `validate` function may return:
+ * - `true`, `undefined`/`null` or an empty error map: valid
+ * - `false`: invalid, without field errors
+ * - an error map (`{ email: 'Required' }` or `{ email: ['Required'] }`): invalid
+ */
+export type AutoSaveValidationResult =
+  | boolean
+  | null
+  | undefined
+  | void
+  | Record<string, string | string[] | undefined>;
+
+export interface AutoSaveValidateContext {
+  /**
+   * Paths that changed since the last successful save
+   */
+  changedPaths: string[];
+
+  /**
+   * The last successfully saved snapshot
+   */
+  previous: Record<string, unknown> | null;
+}
+
+export type AutoSaveValidator = (
+  snapshot: Record<string, unknown>,
+  context: AutoSaveValidateContext
+) => AutoSaveValidationResult | Promise<AutoSaveValidationResult>;
+
+/**
+ * Normalizes a validation result into an error map, or null if valid
+ */
+export function toValidationErrors(result: AutoSaveValidationResult): AutoSaveValidationErrors | null {
+  if (result === false) return {};
+  if (!result || result === true) return null;
+
+  const errors: AutoSaveValidationErrors = {};
+  for (const [path, messages] of Object.entries(result)) {
+    const list = Array.isArray(messages) ? messages : messages ? [messages] : [];
+    if (list.length) errors[path] = list;
+  }
+  return Object.keys(errors).length ? errors : null;
+}
+
+const formatIssuePath = (path: ReadonlyArray<PropertyKey>) =>
+  path.reduce<string>((acc, key) => joinPath(acc, typeof key === 'symbol' ? String(key) : key), '');
+
+/**
+ * Minimal shape of a Zod (or Zod-compatible, e.g. Valibot via adapters) schema
+ */
+export interface ZodLikeSchema {
+  safeParse?: (data: unknown) => ZodLikeResult;
+  safeParseAsync?: (data: unknown) => Promise<ZodLikeResult>;
+}
+
+interface ZodLikeResult {
+  success: boolean;
+  error?: { issues: Array<{ path: ReadonlyArray<PropertyKey>; message: string }> };
+}
+
+/**
+ * Validates the snapshot with a Zod-style schema (`safeParse` / `safeParseAsync`).
+ */
+export function zodValidator(schema: ZodLikeSchema): AutoSaveValidator {
+  return (snapshot) =>
+    Promise.resolve(
+      schema.safeParseAsync ? schema.safeParseAsync(snapshot) : schema.safeParse!(snapshot)
+    ).then((result) => {
+      if (result.success) return true;
+      const errors: AutoSaveValidationErrors = {};
+      for (const issue of result.error?.issues ?? []) {
+        const path = formatIssuePath(issue.path);
+        (errors[path] ??= []).push(issue.message);
+      }
+      return Object.keys(errors).length ? errors : false;
+    });
+}
+
+/**
+ * Minimal shape of vee-validate's `useForm()` return value
+ */
+export interface VeeValidateLikeForm {
+  validate: () => Promise<{ valid: boolean; errors: Record<string, string | undefined> }>;
+}
+
+/**
+ * Validates through vee-validate's `useForm().validate()`.
+ */
+export function veeValidateValidator(form: VeeValidateLikeForm): AutoSaveValidator {
+  return () => form.validate().then(({ valid, errors }) => valid || errors);
+}
+
+/**
+ * Minimal shape of a Vuelidate instance (`useVuelidate()`)
+ */
+export interface VuelidateLike {
+  $validate: () => Promise<boolean>;
+  $errors: Array<{ $property: string; $propertyPath?: string; $message: string | Ref<string> }>;
+}
+
+/**
+ * Validates through Vuelidate's `v$.$validate()`, mapping `$errors` by property path.
+ */
+export function vuelidateValidator(v$: VuelidateLike | Ref<VuelidateLike>): AutoSaveValidator {
+  return () => {
+    const instance = unref(v$);
+    return instance.$validate().then((valid) => {
+      if (valid) return true;
+      const errors: AutoSaveValidationErrors = {};
+      for (const error of unref(v$).$errors) {
+        const path = error.$propertyPath ?? error.$property;
+        (errors[path] ??= []).push(unref(error.$message));
+      }
+      return Object.keys(errors).length ? errors : false;
+    });
+  };
+}
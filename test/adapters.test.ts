@@ -0,0 +1,164 @@
+import { describe, it, expect, vi } from 'vitest';
+import { fetchSaver, axiosSaver, inertiaSaver } from '../src/adapters';
+import { AutoSaveConflictError, AutoSaveHttpError, AutoSaveValidationError } from '../src/errors';
+import type { AutoSaveContext } from '../src';
+
+const createContext = (overrides: Partial<AutoSaveContext> = {}): AutoSaveContext => ({
+  snapshot: { title: 'New', body: 'Text' },
+  previous: { title: 'Old', body: 'Text' },
+  changedPaths: ['title'],
+  diff: { title: 'New' },
+  version: 'v1',
+  signal: new AbortController().signal,
+  ...overrides,
+});
+
+const jsonResponse = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers });
+
+describe('fetchSaver', () => {
+  it('should send the diff with the version and read the new ETag', async () => {
+    const fetch = vi.fn(() => Promise.resolve(jsonResponse(200, {}, { ETag: 'v2' })));
+    const context = createContext();
+
+    const result = await fetchSaver({ url: '/api/posts/1', fetch })(context);
+
+    expect(result).toEqual({ version: 'v2' });
+    expect(fetch).toHaveBeenCalledWith('/api/posts/1', expect.objectContaining({
+      method: 'PATCH',
+      body: JSON.stringify({ title: 'New' }),
+      signal: context.signal,
+      headers: expect.objectContaining({ 'If-Match': 'v1' }),
+    }));
+  });
+
+  it('should send a JSON Patch with payload: patch', async () => {
+    const fetch = vi.fn(() => Promise.resolve(new Response(null, { status: 204 })));
+
+    await fetchSaver({ url: '/api/posts/1', fetch, payload: 'patch' })(createContext());
+
+    expect(fetch).toHaveBeenCalledWith('/api/posts/1', expect.objectContaining({
+      body: JSON.stringify([{ op: 'replace', path: '/title', value: 'New' }]),
+      headers: expect.objectContaining({ 'Content-Type': 'application/json-patch+json' }),
+    }));
+  });
+
+  it('should map 409 and 422 responses to conflict and validation errors', async () => {
+    const conflict = vi.fn(() => Promise.resolve(jsonResponse(409, { title: 'Remote' }, { ETag: 'v3' })));
+    const invalid = vi.fn(() => Promise.resolve(jsonResponse(422, {
+      message: 'The title is required.',
+      errors: { title: ['The title is required.'] },
+    })));
+    const failing = vi.fn(() => Promise.resolve(jsonResponse(500, { message: 'Oops' })));
+
+    const conflictError = await fetchSaver({ url: '/x', fetch: conflict })(createContext()).catch((err) => err);
+    expect(conflictError).toBeInstanceOf(AutoSaveConflictError);
+    expect(conflictError).toMatchObject({ remote: { title: 'Remote' }, version: 'v3' });
+
+    const validationError = await fetchSaver({ url: '/x', fetch: invalid })(createContext()).catch((err) => err);
+    expect(validationError).toBeInstanceOf(AutoSaveValidationError);
+    expect(validationError).toMatchObject({
+      message: 'The title is required.',
+      errors: { title: ['The title is required.'] },
+    });
+
+    const httpError = await fetchSaver({ url: '/x', fetch: failing })(createContext()).catch((err) => err);
+    expect(httpError).toBeInstanceOf(AutoSaveHttpError);
+    expect(httpError).toMatchObject({ status: 500, data: { message: 'Oops' } });
+  });
+});
+
+describe('axiosSaver', () => {
+  it('should send the request through the instance and map error responses', async () => {
+    const request = vi.fn()
+      .mockResolvedValueOnce({ data: {}, status: 200, headers: { etag: 'v2' } })
+      .mockRejectedValueOnce({ response: { status: 422, data: { errors: { title: ['Required'] } }, headers: {} } });
+    const context = createContext();
+    const save = axiosSaver({ request }, { url: (ctx) => `/api/posts/${ctx.snapshot.title}` });
+
+    await expect(save(context)).resolves.toEqual({ version: 'v2' });
+    expect(request).toHaveBeenCalledWith(expect.objectContaining({
+      url: '/api/posts/New',
+      method: 'patch',
+      data: { title: 'New' },
+      signal: context.signal,
+    }));
+
+    const err = await save(context).catch((error) => error);
+    expect(err).toBeInstanceOf(AutoSaveValidationError);
+    expect(err.errors).toEqual({ title: ['Required'] });
+  });
+
+  it('should rethrow network errors as is', async () => {
+    const networkError = new Error('Network Error');
+    const save = axiosSaver({ request: vi.fn().mockRejectedValue(networkError) }, { url: '/x' });
+
+    await expect(save(createContext())).rejects.toBe(networkError);
+  });
+});
+
+describe('inertiaSaver', () => {
+  const createForm = () => ({
+    transform: vi.fn(),
+    post: vi.fn(),
+    put: vi.fn(),
+    patch: vi.fn(),
+    delete: vi.fn(),
+  });
+
+  it('should submit the form and resolve on success', async () => {
+    const form = createForm();
+    form.patch.mockImplementation((_url, options) => {
+      options.onSuccess();
+      options.onFinish();
+    });
+
+    await inertiaSaver(form, { url: '/posts/1' })(createContext());
+
+    expect(form.patch).toHaveBeenCalledWith('/posts/1', expect.objectContaining({
+      preserveScroll: true,
+      preserveState: true,
+    }));
+    expect(form.transform).not.toHaveBeenCalled();
+  });
+
+  it('should reject with Inertia validation errors', async () => {
+    const form = createForm();
+    form.put.mockImplementation((_url, options) => {
+      options.onError({ title: 'Required' });
+      options.onFinish();
+    });
+
+    const err = await inertiaSaver(form, { url: '/posts/1', method: 'put' })(createContext())
+      .catch((error) => error);
+
+    expect(err).toBeInstanceOf(AutoSaveValidationError);
+    expect(err.errors).toEqual({ title: ['Required'] });
+  });
+
+  it('should send the payload through transform and cancel the visit on abort', () => {
+    const form = createForm();
+    const cancel = vi.fn();
+    const controller = new AbortController();
+    form.patch.mockImplementation((_url, options) => {
+      options.onCancelToken({ cancel });
+    });
+
+    inertiaSaver(form, { url: '/posts/1', payload: 'diff' })(createContext({ signal: controller.signal }));
+
+    expect(form.transform.mock.calls[0][0]()).toEqual({ title: 'New' });
+    controller.abort();
+    expect(cancel).toHaveBeenCalled();
+  });
+
+  it('should apply the form transform to the payload and restore it after submitting', () => {
+    const form = createForm();
+    const transform = (data: Record<string, unknown>) => ({ ...data, draft: true });
+
+    inertiaSaver(form, { url: '/posts/1', payload: 'diff', transform })(createContext());
+
+    expect(form.transform).toHaveBeenCalledTimes(2);
+    expect(form.transform.mock.calls[0][0]()).toEqual({ title: 'New', draft: true });
+    expect(form.transform).toHaveBeenLastCalledWith(transform);
+  });
+});
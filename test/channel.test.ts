@@ -0,0 +1,213 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { reactive, nextTick, effectScope } from 'vue';
+import { createTabChannel } from '../src/channel';
+import { useAutoSaveForm } from '../src';
+
+let channelName = 0;
+
+describe('createTabChannel', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    channelName++;
+  });
+
+  afterEach(() => {
+    vi.clearAllTimers();
+  });
+
+  it('should elect the oldest tab as leader after discovery', async () => {
+    const first = createTabChannel(`tabs-${channelName}`, { onMessage: vi.fn() });
+    vi.advanceTimersByTime(10);
+    const second = createTabChannel(`tabs-${channelName}`, { onMessage: vi.fn() });
+
+    // Let the hello / heartbeat exchange arrive
+    await vi.waitFor(() => {
+      vi.advanceTimersByTime(1000);
+      expect(first.isLeader.value).toBe(true);
+      expect(second.isLeader.value).toBe(false);
+    });
+
+    first.close();
+    second.close();
+  });
+
+  it('should hand leadership over when the leader leaves', async () => {
+    const onLeaderChange = vi.fn();
+    const first = createTabChannel(`tabs-${channelName}`, { onMessage: vi.fn() });
+    vi.advanceTimersByTime(10);
+    const second = createTabChannel(`tabs-${channelName}`, { onMessage: vi.fn(), onLeaderChange });
+
+    await vi.waitFor(() => {
+      vi.advanceTimersByTime(1000);
+      expect(first.isLeader.value).toBe(true);
+      expect(second.isLeader.value).toBe(false);
+    });
+
+    first.close();
+
+    await vi.waitFor(() => expect(second.isLeader.value).toBe(true));
+    expect(onLeaderChange).toHaveBeenCalledWith(true);
+
+    second.close();
+  });
+});
+
+describe('useAutoSaveForm with channel', () => {
+  let scope: ReturnType<typeof effectScope>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    channelName++;
+    scope = effectScope();
+  });
+
+  afterEach(() => {
+    scope.stop();
+    vi.clearAllTimers();
+  });
+
+  it('should save follower changes through the leader and sync the result back', async () => {
+    const leaderSave = vi.fn(() => ({ version: 2 }));
+    const followerSave = vi.fn();
+    const leaderForm = reactive({ title: 'Draft' });
+    const followerForm = reactive({ title: 'Draft' });
+
+    const leader = scope.run(() => useAutoSaveForm(leaderForm, {
+      onSave: leaderSave,
+      channel: `form-${channelName}`,
+      debounce: 100,
+    }))!;
+    vi.advanceTimersByTime(10);
+    const follower = scope.run(() => useAutoSaveForm(followerForm, {
+      onSave: followerSave,
+      channel: `form-${channelName}`,
+      debounce: 100,
+    }))!;
+
+    await vi.waitFor(() => {
+      vi.advanceTimersByTime(1000);
+      expect(leader.isLeader.value).toBe(true);
+      expect(follower.isLeader.value).toBe(false);
+    });
+
+    followerForm.title = 'From follower';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+
+    await vi.waitFor(() => expect(leaderSave).toHaveBeenCalledTimes(1));
+    expect(leaderForm.title).toBe('From follower');
+    expect(followerSave).not.toHaveBeenCalled();
+
+    await vi.waitFor(() => expect(follower.version.value).toBe(2));
+    expect(follower.isDirty.value).toBe(false);
+    expect(follower.lastSavedAt.value).toBeInstanceOf(Date);
+
+    // Applying the leader's save doesn't count as a follower edit
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    await nextTick();
+    expect(leaderSave).toHaveBeenCalledTimes(1);
+  });
+
+  it('should merge follower changes with unsaved edits in the leader tab', async () => {
+    const leaderSave = vi.fn();
+    const leaderForm = reactive({ title: 't', body: '' });
+    const followerForm = reactive({ title: 't', body: '' });
+
+    const leader = scope.run(() => useAutoSaveForm(leaderForm, {
+      onSave: leaderSave,
+      channel: `form-${channelName}`,
+      debounce: 500,
+    }))!;
+    vi.advanceTimersByTime(10);
+    const follower = scope.run(() => useAutoSaveForm(followerForm, {
+      onSave: vi.fn(),
+      channel: `form-${channelName}`,
+      debounce: 100,
+    }))!;
+
+    await vi.waitFor(() => {
+      vi.advanceTimersByTime(1000);
+      expect(leader.isLeader.value).toBe(true);
+      expect(follower.isLeader.value).toBe(false);
+    });
+
+    leaderForm.title = 'A-title';
+    followerForm.body = 'B-body';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+
+    await vi.waitFor(() => expect(leaderSave).toHaveBeenCalledTimes(1));
+    expect(leaderSave.mock.calls[0][0].snapshot).toEqual({ title: 'A-title', body: 'B-body' });
+    expect(leaderForm).toEqual({ title: 'A-title', body: 'B-body' });
+
+    await vi.waitFor(() => expect(followerForm).toEqual({ title: 'A-title', body: 'B-body' }));
+    expect(follower.isDirty.value).toBe(false);
+  });
+
+  it('should send changes again once a leader is elected', async () => {
+    const leaderSave = vi.fn();
+    const leaderForm = reactive({ title: 't', body: '' });
+    const followerForm = reactive({ title: 't', body: '' });
+
+    scope.run(() => useAutoSaveForm(leaderForm, {
+      onSave: leaderSave,
+      channel: `form-${channelName}`,
+      debounce: 100,
+    }));
+    vi.advanceTimersByTime(10);
+    const follower = scope.run(() => useAutoSaveForm(followerForm, {
+      onSave: vi.fn(),
+      channel: `form-${channelName}`,
+      debounce: 100,
+    }))!;
+
+    const onMessage = vi.fn();
+    const observer = createTabChannel(`form-${channelName}`, { onMessage });
+
+    // Arrives while the other tab is still discovering, so it isn't the leader yet
+    followerForm.body = 'B-body';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    await vi.waitFor(() => expect(onMessage).toHaveBeenCalledWith(expect.objectContaining({ type: 'change' })));
+    observer.close();
+    expect(leaderSave).not.toHaveBeenCalled();
+
+    await vi.waitFor(() => {
+      vi.advanceTimersByTime(1000);
+      expect(leaderSave).toHaveBeenCalledTimes(1);
+    });
+    expect(leaderForm.body).toBe('B-body');
+    await vi.waitFor(() => expect(follower.isDirty.value).toBe(false));
+  });
+
+  it('should apply saved changes to an idle follower form', async () => {
+    const leaderForm = reactive({ title: 'Draft', body: '' });
+    const followerForm = reactive({ title: 'Draft', body: '' });
+
+    const leader = scope.run(() => useAutoSaveForm(leaderForm, {
+      onSave: vi.fn(),
+      channel: `form-${channelName}`,
+      debounce: 100,
+    }))!;
+    vi.advanceTimersByTime(10);
+    const follower = scope.run(() => useAutoSaveForm(followerForm, {
+      onSave: vi.fn(),
+      channel: `form-${channelName}`,
+      debounce: 100,
+    }))!;
+
+    await vi.waitFor(() => {
+      vi.advanceTimersByTime(1000);
+      expect(leader.isLeader.value).toBe(true);
+      expect(follower.isLeader.value).toBe(false);
+    });
+
+    leaderForm.body = 'Written in the leader tab';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+
+    await vi.waitFor(() => expect(followerForm.body).toBe('Written in the leader tab'));
+    expect(follower.isDirty.value).toBe(false);
+  });
+});
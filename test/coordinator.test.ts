@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { defineComponent, h, reactive, nextTick, ref } from 'vue';
+import { mount } from '@vue/test-utils';
+import { createAutoSaveCoordinator, provideAutoSaveCoordinator } from '../src/coordinator';
+import { useAutoSaveForm } from '../src';
+
+describe('createAutoSaveCoordinator', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.clearAllTimers();
+  });
+
+  it('should aggregate state and flush every form', async () => {
+    const coordinator = createAutoSaveCoordinator();
+    const profileSave = vi.fn();
+    const failingSave = vi.fn().mockRejectedValue(new Error('Offline'));
+    const profile = reactive({ name: 'John' });
+    const billing = reactive({ iban: '' });
+
+    useAutoSaveForm(profile, { onSave: profileSave, coordinator, id: 'profile' });
+    useAutoSaveForm(billing, { onSave: failingSave, coordinator, id: 'billing' });
+
+    expect(coordinator.isDirty.value).toBe(false);
+
+    profile.name = 'Jane';
+    billing.iban = 'DE00';
+    await nextTick();
+    expect(coordinator.isDirty.value).toBe(true);
+
+    await coordinator.flushAll();
+
+    expect(profileSave).toHaveBeenCalledTimes(1);
+    expect(failingSave).toHaveBeenCalledTimes(1);
+    expect(coordinator.isSaving.value).toBe(false);
+    expect(coordinator.isDirty.value).toBe(true);
+    expect(Object.keys(coordinator.errors.value)).toEqual(['billing']);
+  });
+
+  it('should combine saves within the window into one onBatchSave call', async () => {
+    const onBatchSave = vi.fn(() => ({ profile: { version: 2 }, billing: new Error('Invalid IBAN') }));
+    const coordinator = createAutoSaveCoordinator({ onBatchSave, batchWindow: 50 });
+    const profile = reactive({ name: 'John' });
+    const billing = reactive({ iban: '' });
+
+    const profileForm = useAutoSaveForm(profile, { coordinator, id: 'profile', debounce: 100 });
+    const billingForm = useAutoSaveForm(billing, { coordinator, id: 'billing', debounce: 120 });
+
+    profile.name = 'Jane';
+    billing.iban = 'DE00';
+    await nextTick();
+    vi.advanceTimersByTime(120);
+    expect(onBatchSave).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(50);
+    expect(onBatchSave).toHaveBeenCalledTimes(1);
+    expect(onBatchSave.mock.calls[0][0]).toMatchObject({
+      profile: { diff: { name: 'Jane' } },
+      billing: { diff: { iban: 'DE00' } },
+    });
+
+    await vi.waitFor(() => expect(profileForm.version.value).toBe(2));
+    await vi.waitFor(() => expect(billingForm.lastError.value).toEqual(new Error('Invalid IBAN')));
+    expect(billingForm.isDirty.value).toBe(true);
+  });
+
+  it('should require onSave unless the coordinator batches saves', () => {
+    const coordinator = createAutoSaveCoordinator();
+
+    expect(() => useAutoSaveForm(reactive({ name: 'John' }), {})).toThrow('onSave is required');
+    expect(() => useAutoSaveForm(reactive({ name: 'John' }), { coordinator })).toThrow('onSave is required');
+  });
+
+  it('should reject a second form with the same id', () => {
+    const coordinator = createAutoSaveCoordinator({ onBatchSave: vi.fn() });
+    useAutoSaveForm(reactive({ x: 1 }), { coordinator, id: 'profile' });
+
+    expect(() => useAutoSaveForm(reactive({ y: 1 }), { coordinator, id: 'profile' }))
+      .toThrow('A form with id "profile" is already registered');
+
+    const { id } = coordinator.register({
+      isDirty: ref(false),
+      isAutoSaving: ref(false),
+      lastError: ref(null),
+      flush: vi.fn(),
+    });
+    useAutoSaveForm(reactive({ z: 1 }), { coordinator, id: 'form-2' });
+    expect(id).toBe('form-1');
+    expect(coordinator.register({
+      isDirty: ref(false),
+      isAutoSaving: ref(false),
+      lastError: ref(null),
+      flush: vi.fn(),
+    }).id).toBe('form-3');
+  });
+
+  it('should send a second save of the same form in its own batch', async () => {
+    const onBatchSave = vi.fn((batch: Record<string, any>) => ({ profile: { version: batch.profile.snapshot.n } }));
+    const coordinator = createAutoSaveCoordinator({ onBatchSave, batchWindow: 50 });
+    const createContext = (n: number) => ({ snapshot: { n }, signal: new AbortController().signal }) as any;
+
+    const first = coordinator.enqueue('profile', createContext(1));
+    const second = coordinator.enqueue('profile', createContext(2));
+    expect(onBatchSave).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(50);
+    expect(onBatchSave).toHaveBeenCalledTimes(2);
+    await expect(first).resolves.toEqual({ version: 1 });
+    await expect(second).resolves.toEqual({ version: 2 });
+  });
+
+  it('should register forms with a provided coordinator', async () => {
+    let coordinator!: ReturnType<typeof createAutoSaveCoordinator>;
+    const onSave = vi.fn();
+
+    const Child = defineComponent({
+      setup() {
+        useAutoSaveForm(reactive({ name: 'John' }), { onSave, saveOnInit: true });
+        return () => h('div');
+      },
+    });
+    const Parent = defineComponent({
+      setup() {
+        coordinator = provideAutoSaveCoordinator();
+        return () => h(Child);
+      },
+    });
+
+    const wrapper = mount(Parent);
+    await nextTick();
+
+    expect(coordinator.isDirty.value).toBe(false);
+    expect(onSave).toHaveBeenCalledTimes(1);
+
+    wrapper.unmount();
+    expect(coordinator.isSaving.value).toBe(false);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createApp, effectScope, nextTick, reactive, ref } from 'vue';
+import { autoSaveDevtools, createAutoSaveCoordinator, useAutoSaveForm } from '../src';
+
+const createDevtoolsApi = () => {
+  const handlers: Record<string, (payload: any) => void> = {};
+  return {
+    addInspector: vi.fn(),
+    addTimelineLayer: vi.fn(),
+    addTimelineEvent: vi.fn(),
+    sendInspectorTree: vi.fn(),
+    sendInspectorState: vi.fn(),
+    now: () => Date.now(),
+    on: {
+      getInspectorTree: (handler: (payload: any) => void) => {
+        handlers.tree = handler;
+      },
+      getInspectorState: (handler: (payload: any) => void) => {
+        handlers.state = handler;
+      },
+    },
+    getTree(filter = '') {
+      const payload = { inspectorId: 'vue-auto-save', filter, rootNodes: [] as any[] };
+      handlers.tree(payload);
+      return payload.rootNodes;
+    },
+    getState(nodeId: string) {
+      const payload = { inspectorId: 'vue-auto-save', nodeId, state: {} as Record<string, any[]> };
+      handlers.state(payload);
+      return payload.state;
+    },
+  };
+};
+
+describe('autoSaveDevtools', () => {
+  let api: ReturnType<typeof createDevtoolsApi>;
+  let scope: ReturnType<typeof effectScope>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    scope = effectScope();
+    api = createDevtoolsApi();
+    const setupDevtoolsPlugin = vi.fn((_descriptor: unknown, setup: (api: any) => void) => setup(api));
+    createApp({}).use(autoSaveDevtools, { setupDevtoolsPlugin });
+  });
+
+  afterEach(() => {
+    scope.stop();
+    vi.clearAllTimers();
+  });
+
+  it('should list instances with their status and last save', async () => {
+    const form = reactive({ title: 'Draft' });
+    scope.run(() => useAutoSaveForm(form, {
+      id: 'post',
+      onSave: () => ({ version: 3 }),
+      debounce: 100
+    }));
+
+    expect(api.getTree()).toEqual([
+      expect.objectContaining({ id: 'post', tags: [expect.objectContaining({ label: 'idle' })] }),
+    ]);
+
+    form.title = 'Edited';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    await vi.waitFor(() => expect(api.getTree()[0].tags[0].label).toBe('saved'));
+
+    const { state, 'last save': lastSave } = api.getState('post');
+    expect(state).toContainEqual({ key: 'version', value: 3 });
+    expect(lastSave).toEqual([
+      { key: 'snapshot', value: { title: 'Edited' } },
+      { key: 'diff', value: { title: 'Edited' } },
+      { key: 'changedPaths', value: ['title'] },
+    ]);
+    expect(api.getTree('other')).toEqual([]);
+  });
+
+  it('should add save events to the timeline', async () => {
+    const form = reactive({ title: 'Draft' });
+    scope.run(() => useAutoSaveForm(form, {
+      id: 'timeline',
+      onSave: vi.fn().mockRejectedValue(new Error('Offline')),
+      debounce: 100
+    }));
+
+    form.title = 'Edited';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    await vi.waitFor(() => expect(api.addTimelineEvent).toHaveBeenCalledWith({
+      layerId: 'vue-auto-save',
+      event: expect.objectContaining({ title: 'save:error', subtitle: 'timeline', logType: 'error' }),
+    }));
+
+    const titles = api.addTimelineEvent.mock.calls.map(([{ event }]) => event.title);
+    expect(titles).toEqual(['change', 'save:start', 'save:error']);
+  });
+
+  it('should keep forms with the same id apart', () => {
+    scope.run(() => {
+      useAutoSaveForm(reactive({ title: 'First' }), { coordinator: createAutoSaveCoordinator(), onSave: vi.fn() });
+      useAutoSaveForm(reactive({ title: 'Second' }), { coordinator: createAutoSaveCoordinator(), onSave: vi.fn() });
+    });
+
+    expect(api.getTree('form-1').map(({ id }) => id)).toEqual(['form-1', 'form-1 (2)']);
+  });
+
+  it('should not track instances before the plugin is installed', async () => {
+    vi.resetModules();
+    const devtools = await import('../src/devtools');
+    const instance = {
+      id: 'early',
+      status: ref('idle' as const),
+      isDirty: ref(false),
+      lastSavedAt: ref(null),
+      lastError: ref(null),
+      version: ref(null),
+      on: () => () => {},
+    };
+    devtools.registerDevtoolsInstance(instance);
+
+    const freshApi = createDevtoolsApi();
+    createApp({}).use(devtools.autoSaveDevtools, {
+      setupDevtoolsPlugin: (_descriptor: unknown, setup: (api: any) => void) => setup(freshApi),
+    });
+    expect(freshApi.getTree()).toEqual([]);
+
+    devtools.registerDevtoolsInstance({ ...instance, id: 'late' });
+    expect(freshApi.getTree().map(({ id }) => id)).toEqual(['late']);
+  });
+
+  it('should remove disposed instances', () => {
+    scope.run(() => useAutoSaveForm(reactive({ title: 'Draft' }), { id: 'disposed', onSave: vi.fn() }));
+    expect(api.getTree('disposed')).toHaveLength(1);
+
+    scope.stop();
+    expect(api.getTree('disposed')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { reactive } from 'vue';
+import { cloneSnapshot, diffSnapshots } from '../src/diff';
+
+describe('cloneSnapshot', () => {
+  it('should deep clone reactive objects and arrays', () => {
+    const form = reactive({ user: { name: 'John' }, tags: ['a'] });
+    const copy = cloneSnapshot(form);
+
+    form.user.name = 'Jane';
+    form.tags.push('b');
+
+    expect(copy).toEqual({ user: { name: 'John' }, tags: ['a'] });
+  });
+
+  it('should keep circular references intact', () => {
+    const obj: Record<string, unknown> = { name: 'John' };
+    obj.self = obj;
+
+    const copy = cloneSnapshot(obj);
+
+    expect(copy.self).toBe(copy);
+  });
+});
+
+describe('diffSnapshots', () => {
+  it('should list changed top-level and nested paths', () => {
+    const { changedPaths } = diffSnapshots(
+      { name: 'John', address: { city: 'NYC', zip: '1' }, tags: ['a'] },
+      { name: 'John', address: { city: 'LA', zip: '1' }, tags: ['a', 'b'] }
+    );
+
+    expect(changedPaths).toEqual(['address', 'address.city', 'tags', 'tags[1]']);
+  });
+
+  it('should build a minimal merge patch', () => {
+    const { diff } = diffSnapshots(
+      { name: 'John', address: { city: 'NYC', zip: '1' }, tags: ['a'], old: 1 },
+      { name: 'John', address: { city: 'LA', zip: '1' }, tags: ['a', 'b'] }
+    );
+
+    expect(diff).toEqual({ address: { city: 'LA' }, tags: ['a', 'b'], old: null });
+  });
+
+  it('should treat a missing previous snapshot as empty', () => {
+    const { changedPaths, diff } = diffSnapshots(null, { name: 'John' });
+
+    expect(changedPaths).toEqual(['name']);
+    expect(diff).toEqual({ name: 'John' });
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ref, nextTick, effectScope } from 'vue';
+import { useAutoSaveGuard } from '../src/guard';
+
+const createTarget = () => {
+  const isDirty = ref(false);
+  const isAutoSaving = ref(false);
+  const flush = vi.fn(() => {
+    isDirty.value = false;
+    return Promise.resolve();
+  });
+  return { isDirty, isAutoSaving, flush };
+};
+
+const registerGuard = () => {
+  let guard: () => boolean | void | Promise<boolean | void> = () => {};
+  const onBeforeRouteLeave = vi.fn((fn: typeof guard) => {
+    guard = fn;
+  });
+  return { onBeforeRouteLeave, leave: () => guard() };
+};
+
+describe('useAutoSaveGuard', () => {
+  it('should allow leaving when nothing is unsaved', () => {
+    const target = createTarget();
+    const { onBeforeRouteLeave, leave } = registerGuard();
+    useAutoSaveGuard(target, { onBeforeRouteLeave, beforeUnload: false, strategy: 'block' });
+
+    expect(leave()).toBe(true);
+  });
+
+  it('should block navigation while dirty with the block strategy', () => {
+    const target = createTarget();
+    const { onBeforeRouteLeave, leave } = registerGuard();
+    useAutoSaveGuard(target, { onBeforeRouteLeave, beforeUnload: false, strategy: 'block' });
+
+    target.isDirty.value = true;
+
+    expect(leave()).toBe(false);
+  });
+
+  it('should flush then continue with the flush strategy', async () => {
+    const target = createTarget();
+    const { onBeforeRouteLeave, leave } = registerGuard();
+    useAutoSaveGuard(target, { onBeforeRouteLeave, beforeUnload: false });
+
+    target.isDirty.value = true;
+
+    await expect(leave()).resolves.toBe(true);
+    expect(target.flush).toHaveBeenCalledTimes(1);
+  });
+
+  it('should ask the confirm callback with the confirm strategy', async () => {
+    const target = createTarget();
+    const { onBeforeRouteLeave, leave } = registerGuard();
+    const confirm = vi.fn().mockResolvedValue(false);
+    useAutoSaveGuard(target, { onBeforeRouteLeave, beforeUnload: false, strategy: 'confirm', confirm });
+
+    target.isAutoSaving.value = true;
+
+    await expect(leave()).resolves.toBe(false);
+    expect(confirm).toHaveBeenCalledTimes(1);
+  });
+
+  it('should prompt on beforeunload only while unsafe', async () => {
+    const scope = effectScope();
+    const target = createTarget();
+    scope.run(() => useAutoSaveGuard(target, { strategy: 'block' }));
+
+    const clean = new Event('beforeunload', { cancelable: true });
+    window.dispatchEvent(clean);
+    expect(clean.defaultPrevented).toBe(false);
+
+    target.isDirty.value = true;
+    await nextTick();
+
+    const dirty = new Event('beforeunload', { cancelable: true });
+    window.dispatchEvent(dirty);
+    expect(dirty.defaultPrevented).toBe(true);
+
+    scope.stop();
+
+    const stopped = new Event('beforeunload', { cancelable: true });
+    window.dispatchEvent(stopped);
+    expect(stopped.defaultPrevented).toBe(false);
+  });
+});
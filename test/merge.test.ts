@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { threeWayMerge } from '../src/merge';
+
+describe('threeWayMerge', () => {
+  it('should take changes from both sides', () => {
+    const base = { title: 'A', body: 'B', tags: ['x'] };
+    const local = { title: 'A2', body: 'B', tags: ['x'] };
+    const remote = { title: 'A', body: 'B2', tags: ['x', 'y'] };
+
+    expect(threeWayMerge(local, remote, base)).toEqual({ title: 'A2', body: 'B2', tags: ['x', 'y'] });
+  });
+
+  it('should merge nested objects recursively', () => {
+    const base = { address: { city: 'NYC', zip: '1' } };
+    const local = { address: { city: 'LA', zip: '1' } };
+    const remote = { address: { city: 'NYC', zip: '2' } };
+
+    expect(threeWayMerge(local, remote, base)).toEqual({ address: { city: 'LA', zip: '2' } });
+  });
+
+  it('should resolve true conflicts with prefer', () => {
+    const base = { title: 'A' };
+    const local = { title: 'Local' };
+    const remote = { title: 'Remote' };
+
+    expect(threeWayMerge(local, remote, base)).toEqual({ title: 'Local' });
+    expect(threeWayMerge(local, remote, base, { prefer: 'remote' })).toEqual({ title: 'Remote' });
+  });
+
+  it('should keep additions and removals from either side', () => {
+    const base = { a: 1, b: 2 };
+    const local = { a: 1, b: 2, c: 3 };
+    const remote = { a: 1 };
+
+    expect(threeWayMerge(local, remote, base)).toEqual({ a: 1, c: 3 });
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { applyJsonPatch, createJsonPatch } from '../src/patch';
+
+describe('createJsonPatch', () => {
+  it('should add, remove and replace nested values', () => {
+    const patch = createJsonPatch(
+      { name: 'John', address: { city: 'NYC', zip: '1' }, 'a/b': 1 },
+      { name: 'Jane', address: { city: 'NYC' }, phone: '555', 'a/b': 2 }
+    );
+
+    expect(patch).toEqual([
+      { op: 'replace', path: '/name', value: 'Jane' },
+      { op: 'remove', path: '/address/zip' },
+      { op: 'add', path: '/phone', value: '555' },
+      { op: 'replace', path: '/a~1b', value: 2 },
+    ]);
+  });
+
+  it('should diff arrays by index', () => {
+    expect(createJsonPatch({ tags: ['a', 'b', 'c'] }, { tags: ['a', 'x'] })).toEqual([
+      { op: 'replace', path: '/tags/1', value: 'x' },
+      { op: 'remove', path: '/tags/2' },
+    ]);
+  });
+
+  it('should diff arrays by id, moving reordered items', () => {
+    const previous = {
+      lines: [{ id: 1, qty: 1 }, { id: 2, qty: 1 }, { id: 3, qty: 1 }],
+    };
+    const current = {
+      lines: [{ id: 3, qty: 1 }, { id: 1, qty: 5 }, { id: 4, qty: 1 }],
+    };
+
+    const patch = createJsonPatch(previous, current, { arrays: 'id' });
+
+    expect(patch).toEqual([
+      { op: 'remove', path: '/lines/1' },
+      { op: 'move', from: '/lines/1', path: '/lines/0' },
+      { op: 'replace', path: '/lines/1/qty', value: 5 },
+      { op: 'add', path: '/lines/2', value: { id: 4, qty: 1 } },
+    ]);
+    expect(applyJsonPatch(structuredClone(previous), patch)).toEqual(current);
+  });
+
+  it('should fall back to index diffs when items have no unique id', () => {
+    const patch = createJsonPatch({ list: [{ n: 1 }] }, { list: [{ n: 2 }] }, { arrays: 'id' });
+
+    expect(patch).toEqual([{ op: 'replace', path: '/list/0/n', value: 2 }]);
+  });
+});
+
+describe('applyJsonPatch', () => {
+  it('should apply every operation in place', () => {
+    const doc = { a: 1, list: [1, 2], nested: { b: 2 } };
+
+    const result = applyJsonPatch(doc, [
+      { op: 'test', path: '/a', value: 1 },
+      { op: 'add', path: '/list/-', value: 3 },
+      { op: 'copy', from: '/nested', path: '/copy' },
+      { op: 'move', from: '/a', path: '/nested/a' },
+      { op: 'remove', path: '/list/0' },
+    ]);
+
+    expect(result).toBe(doc);
+    expect(doc).toEqual({ list: [2, 3], nested: { b: 2, a: 1 }, copy: { b: 2 } });
+  });
+
+  it('should throw on failed tests and missing paths', () => {
+    expect(() => applyJsonPatch({ a: 1 }, [{ op: 'test', path: '/a', value: 2 }])).toThrow();
+    expect(() => applyJsonPatch({ a: 1 }, [{ op: 'replace', path: '/b', value: 2 }])).toThrow();
+    expect(() => applyJsonPatch({ list: [] }, [{ op: 'add', path: '/list/1', value: 2 }])).toThrow();
+  });
+
+  it('should reject pointers reaching the prototype', () => {
+    expect(() => applyJsonPatch({}, [{ op: 'add', path: '/__proto__/polluted', value: 'yes' }])).toThrow();
+    expect(() => applyJsonPatch({}, [
+      { op: 'add', path: '/constructor/prototype/polluted', value: 'yes' },
+    ])).toThrow();
+    expect(() => applyJsonPatch({}, [{ op: 'replace', path: '/toString', value: 1 }])).toThrow();
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { reactive } from 'vue';
+import { createFieldFilter, parsePath } from '../src/paths';
+
+describe('parsePath', () => {
+  it('should split dot and bracket paths', () => {
+    expect(parsePath('lines[0].tempId')).toEqual(['lines', 0, 'tempId']);
+    expect(parsePath('address.city')).toEqual(['address', 'city']);
+  });
+});
+
+describe('createFieldFilter', () => {
+  const form = () => reactive({
+    title: 'Invoice',
+    meta: { lastViewedAt: 1, owner: 'john' },
+    items: [
+      { id: 1, uiExpanded: true },
+      { id: 2, uiExpanded: false },
+    ],
+    lines: [{ tempId: 'a', amount: 10 }],
+    address: { city: 'NYC', zip: '10001' },
+  });
+
+  it('should skip nested paths with wildcards', () => {
+    const filter = createFieldFilter({
+      skip: ['meta.lastViewedAt', 'items.*.uiExpanded', 'lines[*].tempId', 'address.*'],
+    });
+
+    expect(filter(form())).toEqual({
+      title: 'Invoice',
+      meta: { owner: 'john' },
+      items: [{ id: 1 }, { id: 2 }],
+      lines: [{ amount: 10 }],
+      address: {},
+    });
+  });
+
+  it('should skip fields matching a predicate', () => {
+    const filter = createFieldFilter({
+      skip: [(path) => path.endsWith('uiExpanded') || path.startsWith('meta')],
+    });
+
+    expect(filter(form())).toEqual({
+      title: 'Invoice',
+      items: [{ id: 1 }, { id: 2 }],
+      lines: [{ tempId: 'a', amount: 10 }],
+      address: { city: 'NYC', zip: '10001' },
+    });
+  });
+
+  it('should only keep included fields', () => {
+    const filter = createFieldFilter({ include: ['title', 'address.city', 'items[*].id'] });
+
+    expect(filter(form())).toEqual({
+      title: 'Invoice',
+      address: { city: 'NYC' },
+      items: [{ id: 1 }, { id: 2 }],
+    });
+  });
+
+  it('should match any depth with **', () => {
+    const filter = createFieldFilter({ skip: ['**.uiExpanded', 'meta.**'] });
+
+    expect(filter(form()).items).toEqual([{ id: 1 }, { id: 2 }]);
+    expect(filter(form())).not.toHaveProperty('meta');
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { reactive, nextTick } from 'vue';
+import { useAutoSaveStore } from '../src/pinia';
+
+/**
+ * Stand-in for a Pinia store with `$state` and `$patch`
+ */
+const createStore = <T extends Record<string, any>>(initial: T) => {
+  const $state = reactive(initial) as T;
+
+  return {
+    $state,
+    $patch(partial: Record<string, any> | ((state: T) => void)) {
+      if (typeof partial === 'function') {
+        partial($state);
+      } else {
+        for (const [key, value] of Object.entries(partial)) {
+          if (value && typeof value === 'object') {
+            Object.assign($state[key], value);
+          } else {
+            ($state as Record<string, unknown>)[key] = value;
+          }
+        }
+      }
+    },
+  };
+};
+
+describe('useAutoSaveStore', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.clearAllTimers();
+  });
+
+  it('should save changes to a slice of the store', async () => {
+    const store = createStore({ draft: { title: 'Draft' }, ui: { sidebar: true } });
+    const onSave = vi.fn();
+    useAutoSaveStore(store, { slice: 'draft', onSave, debounce: 100 });
+
+    store.$state.ui.sidebar = false;
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    await nextTick();
+    expect(onSave).not.toHaveBeenCalled();
+
+    store.$state.draft.title = 'Final';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+
+    await vi.waitFor(() => expect(onSave).toHaveBeenCalledTimes(1));
+    expect(onSave.mock.calls[0][0].snapshot).toEqual({ title: 'Final' });
+  });
+
+  it('should not save $patch calls made with the save response', async () => {
+    const store = createStore({ title: 'Draft', updatedAt: 1, localOnly: '' });
+    const onSave = vi.fn(() => {
+      store.$patch({ updatedAt: 2 });
+    });
+    const { isDirty, saveCount } = useAutoSaveStore(store, {
+      onSave,
+      skipFields: ['localOnly'],
+      debounce: 100
+    });
+
+    store.$state.title = 'Final';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+
+    await vi.waitFor(() => expect(saveCount.value).toBe(1));
+    expect(store.$state.updatedAt).toBe(2);
+    expect(isDirty.value).toBe(false);
+
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    await nextTick();
+    expect(onSave).toHaveBeenCalledTimes(1);
+  });
+
+  it('should apply server patches made after the save resolves', async () => {
+    const store = createStore({ title: 'Draft', updatedAt: 1 });
+    const onSave = vi.fn(async () => {
+      await Promise.resolve();
+      autoSave.applyServerPatch(() => store.$patch({ updatedAt: 2 }));
+    });
+    const autoSave = useAutoSaveStore(store, { onSave, debounce: 100 });
+
+    store.$state.title = 'Final';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+
+    await vi.waitFor(() => expect(autoSave.saveCount.value).toBe(1));
+    expect(autoSave.isDirty.value).toBe(false);
+
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    await nextTick();
+    expect(onSave).toHaveBeenCalledTimes(1);
+  });
+
+  it('should save user patches made while a save is pending', async () => {
+    let resolveSave!: () => void;
+    const store = createStore({ title: 'Draft', body: '' });
+    const onSave = vi.fn()
+      .mockImplementationOnce(() => new Promise<void>((resolve) => {
+        resolveSave = resolve;
+      }))
+      .mockResolvedValue(undefined);
+    const { isDirty, saveCount } = useAutoSaveStore(store, { onSave, debounce: 1000 });
+
+    store.$state.title = 'Final';
+    await nextTick();
+    vi.advanceTimersByTime(1000);
+    await vi.waitFor(() => expect(onSave).toHaveBeenCalledTimes(1));
+
+    store.$patch({ body: 'typed during save' });
+    await nextTick();
+    resolveSave();
+
+    await vi.waitFor(() => expect(saveCount.value).toBe(1));
+    expect(isDirty.value).toBe(true);
+
+    vi.advanceTimersByTime(1000);
+    await vi.waitFor(() => expect(onSave).toHaveBeenCalledTimes(2));
+    expect(onSave.mock.calls[1][0].diff).toEqual({ body: 'typed during save' });
+  });
+
+  it('should save $patch calls made outside of a save', async () => {
+    const store = createStore({ title: 'Draft' });
+    const onSave = vi.fn();
+    useAutoSaveStore(store, { onSave, debounce: 100 });
+
+    store.$patch((state) => {
+      state.title = 'Patched';
+    });
+    await nextTick();
+    vi.advanceTimersByTime(100);
+
+    await vi.waitFor(() => expect(onSave).toHaveBeenCalledTimes(1));
+    expect(onSave.mock.calls[0][0].snapshot).toEqual({ title: 'Patched' });
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { localStorageAdapter, memoryStorage } from '../src/storage';
+
+describe('memoryStorage', () => {
+  it('should store, read and remove values', () => {
+    const storage = memoryStorage({ a: '1' });
+
+    expect(storage.getItem('a')).toBe('1');
+
+    storage.setItem('b', '2');
+    storage.removeItem('a');
+
+    expect(storage.getItem('a')).toBeNull();
+    expect(storage.getItem('b')).toBe('2');
+  });
+});
+
+describe('localStorageAdapter', () => {
+  it('should read and write through window.localStorage', () => {
+    const storage = localStorageAdapter();
+
+    storage.setItem('vue-auto-save:test', 'value');
+    expect(window.localStorage.getItem('vue-auto-save:test')).toBe('value');
+
+    storage.removeItem('vue-auto-save:test');
+    expect(storage.getItem('vue-auto-save:test')).toBeNull();
+  });
+});
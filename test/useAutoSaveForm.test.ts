@@ -1,6 +1,12 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { reactive, nextTick } from 'vue';
-import { useAutoSaveForm } from '../src';
+import { reactive, nextTick, effectScope, watch } from 'vue';
+import {
+  useAutoSaveForm,
+  memoryStorage,
+  AutoSaveConflictError,
+  AutoSaveHttpError,
+  AutoSaveValidationError,
+} from '../src';
 import { ref } from 'vue';
 
 describe('useAutoSaveForm', () => {
@@ -603,4 +609,1537 @@ describe('useAutoSaveForm', () => {
     expect(isAutoSaving.value).toBe(true);
   });
 
+  it('should pass a change context to onSave', async () => {
+    const form = reactive({ name: 'John', address: { city: 'NYC', zip: '10001' } });
+    useAutoSaveForm(form, {
+      onSave: mockOnSave,
+      debounce: 100
+    });
+
+    form.address.city = 'LA';
+    await nextTick();
+
+    vi.advanceTimersByTime(100);
+    await nextTick();
+
+    expect(mockOnSave).toHaveBeenCalledWith({
+      snapshot: { name: 'John', address: { city: 'LA', zip: '10001' } },
+      previous: { name: 'John', address: { city: 'NYC', zip: '10001' } },
+      changedPaths: ['address', 'address.city'],
+      diff: { address: { city: 'LA' } },
+      version: null,
+      signal: expect.any(AbortSignal),
+    });
+  });
+
+  it('should run saves one after another with concurrency queue', async () => {
+    const resolvers: Array<() => void> = [];
+    const slowSave = vi.fn(() => new Promise<void>((resolve) => resolvers.push(resolve)));
+    const form = reactive({ name: 'John' });
+    const { isAutoSaving } = useAutoSaveForm(form, {
+      onSave: slowSave,
+      concurrency: 'queue',
+      debounce: 100
+    });
+
+    form.name = 'Jane';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    await nextTick();
+
+    form.name = 'Bob';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    await nextTick();
+
+    expect(slowSave).toHaveBeenCalledTimes(1);
+
+    resolvers[0]();
+    await vi.waitFor(() => expect(slowSave).toHaveBeenCalledTimes(2));
+    expect(slowSave.mock.calls[1][0].snapshot).toEqual({ name: 'Bob' });
+    expect(isAutoSaving.value).toBe(true);
+
+    resolvers[1]();
+    await vi.waitFor(() => expect(isAutoSaving.value).toBe(false));
+  });
+
+  it('should stay saving between queued saves', async () => {
+    const resolvers: Array<() => void> = [];
+    const slowSave = vi.fn(() => new Promise<void>((resolve) => resolvers.push(resolve)));
+    const form = reactive({ name: 'John' });
+    const { isAutoSaving, status } = useAutoSaveForm(form, {
+      onSave: slowSave,
+      concurrency: 'queue',
+      debounce: 100
+    });
+    const savingStates: boolean[] = [];
+    const statuses: string[] = [];
+    watch(isAutoSaving, (value) => savingStates.push(value), { flush: 'sync' });
+    watch(status, (value) => statuses.push(value), { flush: 'sync' });
+
+    for (const name of ['Jane', 'Bob']) {
+      form.name = name;
+      await nextTick();
+      vi.advanceTimersByTime(100);
+      await nextTick();
+    }
+
+    resolvers[0]();
+    await vi.waitFor(() => expect(slowSave).toHaveBeenCalledTimes(2));
+    resolvers[1]();
+    await vi.waitFor(() => expect(isAutoSaving.value).toBe(false));
+
+    expect(savingStates).toEqual([true, false]);
+    expect(statuses.filter((value) => value === 'saved')).toHaveLength(1);
+    expect(status.value).toBe('saved');
+  });
+
+  it('should run one trailing save with the latest form with concurrency coalesce', async () => {
+    const resolvers: Array<() => void> = [];
+    const slowSave = vi.fn(() => new Promise<void>((resolve) => resolvers.push(resolve)));
+    const form = reactive({ name: 'John' });
+    useAutoSaveForm(form, {
+      onSave: slowSave,
+      concurrency: 'coalesce',
+      debounce: 100
+    });
+
+    for (const name of ['Jane', 'Bob', 'Alice']) {
+      form.name = name;
+      await nextTick();
+      vi.advanceTimersByTime(100);
+      await nextTick();
+    }
+
+    expect(slowSave).toHaveBeenCalledTimes(1);
+
+    resolvers[0]();
+    await vi.waitFor(() => expect(slowSave).toHaveBeenCalledTimes(2));
+    expect(slowSave.mock.calls[1][0].snapshot).toEqual({ name: 'Alice' });
+  });
+
+  it('should abort the in-flight save with concurrency abort', async () => {
+    const signals: AbortSignal[] = [];
+    const slowSave = vi.fn(({ signal }: { signal: AbortSignal }) => {
+      signals.push(signal);
+      return new Promise<void>(() => {});
+    });
+    const form = reactive({ name: 'John' });
+    const { isAutoSaving } = useAutoSaveForm(form, {
+      onSave: slowSave,
+      onError: mockOnError,
+      concurrency: 'abort',
+      debounce: 100
+    });
+
+    form.name = 'Jane';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    await nextTick();
+
+    form.name = 'Bob';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    await nextTick();
+
+    expect(slowSave).toHaveBeenCalledTimes(2);
+    expect(signals[0].aborted).toBe(true);
+    expect(signals[1].aborted).toBe(false);
+    expect(isAutoSaving.value).toBe(true);
+    expect(mockOnError).not.toHaveBeenCalled();
+  });
+
+  it('should retry failed saves with exponential backoff', async () => {
+    const flakySave = vi.fn()
+      .mockRejectedValueOnce(new Error('Network'))
+      .mockRejectedValueOnce(new Error('Network'))
+      .mockResolvedValue(undefined);
+    const form = reactive({ name: 'John' });
+    useAutoSaveForm(form, {
+      onSave: flakySave,
+      onError: mockOnError,
+      onAfterSave: mockOnAfterSave,
+      retry: { attempts: 3, baseDelay: 100, jitter: false },
+      debounce: 100
+    });
+
+    form.name = 'Jane';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    await vi.waitFor(() => expect(flakySave).toHaveBeenCalledTimes(1));
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(flakySave).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(flakySave).toHaveBeenCalledTimes(3);
+    expect(mockOnAfterSave).toHaveBeenCalledTimes(1);
+    expect(mockOnError).not.toHaveBeenCalled();
+  });
+
+  it('should not retry when shouldRetry returns false', async () => {
+    const errorSave = vi.fn().mockRejectedValue(new Error('Invalid'));
+    const form = reactive({ name: 'John' });
+    useAutoSaveForm(form, {
+      onSave: errorSave,
+      onError: mockOnError,
+      retry: { attempts: 5, baseDelay: 100, shouldRetry: () => false },
+      debounce: 100
+    });
+
+    form.name = 'Jane';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    await vi.waitFor(() => expect(mockOnError).toHaveBeenCalledTimes(1));
+
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(errorSave).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep the form dirty after a failed save', async () => {
+    const errorSave = vi.fn()
+      .mockRejectedValueOnce(new Error('Save failed'))
+      .mockResolvedValue(undefined);
+    const form = reactive({ name: 'John', email: 'john@example.com' });
+    useAutoSaveForm(form, {
+      onSave: errorSave,
+      onError: mockOnError,
+      debounce: 100
+    });
+
+    form.name = 'Jane';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    await vi.waitFor(() => expect(mockOnError).toHaveBeenCalledTimes(1));
+
+    form.email = 'jane@example.com';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    await nextTick();
+
+    expect(errorSave).toHaveBeenCalledTimes(2);
+    expect(errorSave.mock.calls[1][0].diff).toEqual({ name: 'Jane', email: 'jane@example.com' });
+  });
+
+  it('should track save status through the save lifecycle', async () => {
+    let resolveSave: () => void = () => {};
+    const slowSave = vi.fn(() => new Promise<void>((resolve) => (resolveSave = resolve)));
+    const form = reactive({ name: 'John' });
+    const { status, isDirty, lastSavedAt, saveCount } = useAutoSaveForm(form, {
+      onSave: slowSave,
+      debounce: 100
+    });
+
+    expect(status.value).toBe('idle');
+    expect(isDirty.value).toBe(false);
+
+    form.name = 'Jane';
+    await nextTick();
+
+    expect(status.value).toBe('pending');
+    expect(isDirty.value).toBe(true);
+
+    vi.advanceTimersByTime(100);
+    await nextTick();
+
+    expect(status.value).toBe('saving');
+
+    resolveSave();
+    await vi.waitFor(() => expect(status.value).toBe('saved'));
+    expect(isDirty.value).toBe(false);
+    expect(lastSavedAt.value).toBeInstanceOf(Date);
+    expect(saveCount.value).toBe(1);
+  });
+
+  it('should report error status and keep the form dirty when a save fails', async () => {
+    const error = new Error('Save failed');
+    const form = reactive({ name: 'John' });
+    const { status, isDirty, lastError } = useAutoSaveForm(form, {
+      onSave: vi.fn().mockRejectedValue(error),
+      debounce: 100
+    });
+
+    form.name = 'Jane';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+
+    await vi.waitFor(() => expect(status.value).toBe('error'));
+    expect(lastError.value).toBe(error);
+    expect(isDirty.value).toBe(true);
+  });
+
+  it('should report dirty status while the watcher is blocked', async () => {
+    const form = reactive({ name: 'John' });
+    const { status, blockWatcher } = useAutoSaveForm(form, {
+      onSave: mockOnSave,
+      debounce: 100
+    });
+
+    blockWatcher(500);
+    form.name = 'Jane';
+    await nextTick();
+
+    expect(status.value).toBe('dirty');
+  });
+
+  it('should queue saves while offline and replay them when back online', async () => {
+    const onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    const storage = memoryStorage();
+    const form = reactive({ name: 'John' });
+    const { status, queuedCount } = useAutoSaveForm(form, {
+      onSave: mockOnSave,
+      offline: { storage, key: 'profile' },
+      debounce: 100
+    });
+
+    window.dispatchEvent(new Event('offline'));
+    form.name = 'Jane';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    await nextTick();
+
+    expect(mockOnSave).not.toHaveBeenCalled();
+    expect(queuedCount.value).toBe(1);
+    expect(status.value).toBe('offline');
+    expect(JSON.parse(storage.getItem('profile') as string)).toHaveLength(1);
+
+    onLine.mockReturnValue(true);
+    window.dispatchEvent(new Event('online'));
+
+    await vi.waitFor(() => expect(queuedCount.value).toBe(0));
+    expect(mockOnSave).toHaveBeenCalledTimes(1);
+    expect(mockOnSave.mock.calls[0][0].snapshot).toEqual({ name: 'Jane' });
+    expect(storage.getItem('profile')).toBeNull();
+
+    onLine.mockRestore();
+  });
+
+  it('should replay a persisted offline queue on mount', async () => {
+    const storage = memoryStorage({
+      draft: JSON.stringify([
+        { data: JSON.stringify({ name: 'Jane' }), queuedAt: 1 },
+        { data: JSON.stringify({ name: 'Bob' }), queuedAt: 2 },
+      ]),
+    });
+    const form = reactive({ name: 'John' });
+    const { queuedCount } = useAutoSaveForm(form, {
+      onSave: mockOnSave,
+      offline: { storage, key: 'draft' },
+      debounce: 100
+    });
+
+    await vi.waitFor(() => expect(mockOnSave).toHaveBeenCalledTimes(2));
+    expect(mockOnSave.mock.calls.map(([ctx]) => ctx.snapshot)).toEqual([{ name: 'Jane' }, { name: 'Bob' }]);
+    await vi.waitFor(() => expect(queuedCount.value).toBe(0));
+  });
+
+  it('should discard queued offline saves', async () => {
+    const storage = memoryStorage({
+      draft: JSON.stringify([{ data: JSON.stringify({ name: 'Jane' }), queuedAt: 1 }]),
+    });
+    const onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    const form = reactive({ name: 'John' });
+    const { queuedCount, discardQueue } = useAutoSaveForm(form, {
+      onSave: mockOnSave,
+      offline: { storage, key: 'draft' },
+    });
+
+    await vi.waitFor(() => expect(queuedCount.value).toBe(1));
+    await discardQueue();
+
+    expect(queuedCount.value).toBe(0);
+    expect(storage.getItem('draft')).toBeNull();
+    expect(mockOnSave).not.toHaveBeenCalled();
+
+    onLine.mockRestore();
+  });
+
+  it('should mirror unsaved changes into a draft and clear it after saving', async () => {
+    const storage = memoryStorage();
+    const form = reactive({ name: 'John', processing: false });
+    useAutoSaveForm(form, {
+      onSave: mockOnSave,
+      draft: { storage, key: 'profile:draft' },
+      debounce: 100
+    });
+
+    form.name = 'Jane';
+    await nextTick();
+
+    const stored = JSON.parse(storage.getItem('profile:draft') as string);
+    expect(JSON.parse(stored.data)).toEqual({ name: 'Jane' });
+
+    vi.advanceTimersByTime(100);
+    await vi.waitFor(() => expect(storage.getItem('profile:draft')).toBeNull());
+  });
+
+  it('should offer to restore a draft newer than the last server save', async () => {
+    const storage = memoryStorage({
+      'profile:draft': JSON.stringify({ data: JSON.stringify({ name: 'Jane' }), updatedAt: 2000 }),
+    });
+    const form = reactive({ name: 'John' });
+    const { hasDraft, restoreDraft } = useAutoSaveForm(form, {
+      onSave: mockOnSave,
+      draft: { storage, key: 'profile:draft', savedAt: 1000 },
+      debounce: 100
+    });
+
+    await vi.waitFor(() => expect(hasDraft.value).toBe(true));
+
+    restoreDraft();
+    await nextTick();
+
+    expect(form.name).toBe('Jane');
+    expect(hasDraft.value).toBe(false);
+
+    vi.advanceTimersByTime(100);
+    await nextTick();
+
+    expect(mockOnSave).toHaveBeenCalledTimes(1);
+  });
+
+  it('should ignore drafts older than the last server save', async () => {
+    const storage = memoryStorage({
+      'profile:draft': JSON.stringify({ data: JSON.stringify({ name: 'Jane' }), updatedAt: 1000 }),
+    });
+    const form = reactive({ name: 'John' });
+    const { hasDraft } = useAutoSaveForm(form, {
+      onSave: mockOnSave,
+      draft: { storage, key: 'profile:draft', savedAt: 2000 },
+    });
+
+    await vi.waitFor(() => expect(storage.getItem('profile:draft')).toBeNull());
+    expect(hasDraft.value).toBe(false);
+  });
+
+  it('should save pending changes immediately on flush', async () => {
+    let resolveSave: () => void = () => {};
+    const slowSave = vi.fn(() => new Promise<void>((resolve) => (resolveSave = resolve)));
+    const form = reactive({ name: 'John' });
+    const { flush } = useAutoSaveForm(form, {
+      onSave: slowSave,
+      onAfterSave: mockOnAfterSave,
+      debounce: 3000
+    });
+
+    form.name = 'Jane';
+    await nextTick();
+
+    const flushed = flush();
+    expect(slowSave).toHaveBeenCalledTimes(1);
+
+    let done = false;
+    flushed.then(() => (done = true));
+    await nextTick();
+    expect(done).toBe(false);
+
+    resolveSave();
+    await flushed;
+    expect(mockOnAfterSave).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(3000);
+    expect(slowSave).toHaveBeenCalledTimes(1);
+  });
+
+  it('should flush pending changes on unmount with flushOnExit', async () => {
+    const scope = effectScope();
+    const form = reactive({ name: 'John' });
+    scope.run(() => useAutoSaveForm(form, {
+      onSave: mockOnSave,
+      flushOnExit: true,
+      debounce: 3000
+    }));
+
+    form.name = 'Jane';
+    await nextTick();
+
+    scope.stop();
+
+    expect(mockOnSave).toHaveBeenCalledTimes(1);
+    expect(mockOnSave.mock.calls[0][0].snapshot).toEqual({ name: 'Jane' });
+  });
+
+  it('should send pending changes through onBeacon on pagehide', async () => {
+    const scope = effectScope();
+    const onBeacon = vi.fn(() => true);
+    const form = reactive({ name: 'John' });
+    const result = scope.run(() => useAutoSaveForm(form, {
+      onSave: mockOnSave,
+      onBeacon,
+      flushOnExit: true,
+      debounce: 3000
+    }))!;
+
+    form.name = 'Jane';
+    await nextTick();
+
+    window.dispatchEvent(new Event('pagehide'));
+
+    expect(onBeacon).toHaveBeenCalledTimes(1);
+    expect(onBeacon.mock.calls[0]).toEqual([expect.objectContaining({ diff: { name: 'Jane' } })]);
+    expect(mockOnSave).not.toHaveBeenCalled();
+    expect(result.isDirty.value).toBe(false);
+
+    vi.advanceTimersByTime(3000);
+    expect(mockOnSave).not.toHaveBeenCalled();
+
+    scope.stop();
+  });
+
+  it('should not save when only skipped nested paths change', async () => {
+    const form = reactive({
+      title: 'Invoice',
+      items: [{ id: 1, uiExpanded: false }],
+    });
+    const { status } = useAutoSaveForm(form, {
+      onSave: mockOnSave,
+      skipFields: ['items.*.uiExpanded'],
+      debounce: 100
+    });
+
+    form.items[0].uiExpanded = true;
+    await nextTick();
+
+    expect(status.value).toBe('idle');
+
+    vi.advanceTimersByTime(100);
+    await nextTick();
+
+    expect(mockOnSave).not.toHaveBeenCalled();
+
+    form.items[0].id = 2;
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    await nextTick();
+
+    expect(mockOnSave).toHaveBeenCalledTimes(1);
+    expect(mockOnSave.mock.calls[0][0].snapshot).toEqual({ title: 'Invoice', items: [{ id: 2 }] });
+  });
+
+  it('should hold invalid changes until validate passes', async () => {
+    const form = reactive({ email: 'john@example.com' });
+    const { validationErrors, isDirty } = useAutoSaveForm(form, {
+      onSave: mockOnSave,
+      validate: (snapshot) => (String(snapshot.email).includes('@') ? true : { email: 'Invalid email' }),
+      debounce: 100
+    });
+
+    form.email = 'john';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    await nextTick();
+
+    expect(mockOnSave).not.toHaveBeenCalled();
+    expect(validationErrors.value).toEqual({ email: ['Invalid email'] });
+    expect(isDirty.value).toBe(true);
+
+    form.email = 'john@example.org';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    await nextTick();
+
+    expect(mockOnSave).toHaveBeenCalledTimes(1);
+    expect(validationErrors.value).toEqual({});
+  });
+
+  it('should wait for async validation before saving', async () => {
+    const validate = vi.fn().mockResolvedValue(true);
+    const form = reactive({ name: 'John' });
+    const { flush } = useAutoSaveForm(form, {
+      onSave: mockOnSave,
+      validate,
+      debounce: 100
+    });
+
+    form.name = 'Jane';
+    await nextTick();
+    await flush();
+
+    expect(validate).toHaveBeenCalledWith({ name: 'Jane' }, { previous: { name: 'John' }, changedPaths: ['name'] });
+    expect(mockOnSave).toHaveBeenCalledTimes(1);
+  });
+
+  it('should save at least every maxWait ms while changes keep coming in', async () => {
+    const form = reactive({ body: '' });
+    useAutoSaveForm(form, {
+      onSave: mockOnSave,
+      debounce: 200,
+      maxWait: 500
+    });
+
+    for (let i = 0; i < 12; i++) {
+      form.body += 'a';
+      await nextTick();
+      vi.advanceTimersByTime(100);
+    }
+
+    expect(mockOnSave).toHaveBeenCalledTimes(2);
+
+    vi.advanceTimersByTime(200);
+    expect(mockOnSave).toHaveBeenCalledTimes(3);
+    expect(mockOnSave.mock.calls[2][0].snapshot).toEqual({ body: 'a'.repeat(12) });
+  });
+
+  it('should save on the leading edge when leading is true', async () => {
+    const form = reactive({ name: 'John' });
+    useAutoSaveForm(form, {
+      onSave: mockOnSave,
+      leading: true,
+      debounce: 200
+    });
+
+    form.name = 'Jane';
+    await nextTick();
+
+    expect(mockOnSave).toHaveBeenCalledTimes(1);
+
+    form.name = 'Bob';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    expect(mockOnSave).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(200);
+    expect(mockOnSave).toHaveBeenCalledTimes(2);
+    expect(mockOnSave.mock.calls[1][0].snapshot).toEqual({ name: 'Bob' });
+  });
+
+  it('should cancel the maxWait timer when the watcher is blocked', async () => {
+    const form = reactive({ body: '' });
+    const { blockWatcher } = useAutoSaveForm(form, {
+      onSave: mockOnSave,
+      debounce: 200,
+      maxWait: 300
+    });
+
+    form.body = 'a';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+
+    blockWatcher(1000);
+    vi.advanceTimersByTime(1000);
+
+    expect(mockOnSave).not.toHaveBeenCalled();
+  });
+
+  it('should use per-field debounce and merge changes into one save', async () => {
+    const form = reactive({ title: 'Draft', body: '', published: false });
+    useAutoSaveForm(form, {
+      onSave: mockOnSave,
+      debounce: 3000,
+      fields: {
+        title: { debounce: 500 },
+        published: { immediate: true },
+      }
+    });
+
+    form.title = 'Final';
+    await nextTick();
+    vi.advanceTimersByTime(500);
+    expect(mockOnSave).toHaveBeenCalledTimes(1);
+
+    form.body = 'Hello';
+    await nextTick();
+    form.published = true;
+    await nextTick();
+    vi.advanceTimersByTime(0);
+
+    expect(mockOnSave).toHaveBeenCalledTimes(2);
+    expect(mockOnSave.mock.calls[1][0].diff).toEqual({ body: 'Hello', published: true });
+
+    vi.advanceTimersByTime(3000);
+    expect(mockOnSave).toHaveBeenCalledTimes(2);
+  });
+
+  it('should hold blur-only fields until handleBlur is called', async () => {
+    const form = reactive({ title: 'Draft', notes: { text: '' } });
+    const { handleBlur, status } = useAutoSaveForm(form, {
+      onSave: mockOnSave,
+      debounce: 100,
+      fields: {
+        notes: { trigger: 'blur' },
+      }
+    });
+
+    form.notes.text = 'Call back';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+
+    expect(mockOnSave).not.toHaveBeenCalled();
+    expect(status.value).toBe('dirty');
+
+    await handleBlur();
+
+    expect(mockOnSave).toHaveBeenCalledTimes(1);
+    expect(mockOnSave.mock.calls[0][0].diff).toEqual({ notes: { text: 'Call back' } });
+  });
+
+  it('should only save on flush with the manual trigger', async () => {
+    const form = reactive({ name: 'John' });
+    const { status, flush } = useAutoSaveForm(form, {
+      onSave: mockOnSave,
+      trigger: 'manual',
+      debounce: 100
+    });
+
+    form.name = 'Jane';
+    await nextTick();
+    vi.advanceTimersByTime(1000);
+
+    expect(mockOnSave).not.toHaveBeenCalled();
+    expect(status.value).toBe('dirty');
+
+    await flush();
+
+    expect(mockOnSave).toHaveBeenCalledTimes(1);
+  });
+
+  it('should save dirty state on every interval with the interval trigger', async () => {
+    const scope = effectScope();
+    const form = reactive({ name: 'John' });
+    const { isDirty } = scope.run(() => useAutoSaveForm(form, {
+      onSave: mockOnSave,
+      trigger: 'interval',
+      interval: 1000
+    }))!;
+
+    vi.advanceTimersByTime(1000);
+    expect(mockOnSave).not.toHaveBeenCalled();
+
+    form.name = 'Jane';
+    await nextTick();
+    vi.advanceTimersByTime(999);
+    expect(mockOnSave).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(mockOnSave).toHaveBeenCalledTimes(1);
+
+    await vi.waitFor(() => expect(isDirty.value).toBe(false));
+    vi.advanceTimersByTime(1000);
+    expect(mockOnSave).toHaveBeenCalledTimes(1);
+
+    scope.stop();
+  });
+
+  it('should save when a bound element loses focus with the blur trigger', async () => {
+    const form = reactive({ name: 'John' });
+    const { bindBlur } = useAutoSaveForm(form, {
+      onSave: mockOnSave,
+      trigger: 'blur',
+      debounce: 100
+    });
+    const el = document.createElement('div');
+    const unbind = bindBlur(el);
+
+    form.name = 'Jane';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    expect(mockOnSave).not.toHaveBeenCalled();
+
+    el.dispatchEvent(new FocusEvent('focusout'));
+    expect(mockOnSave).toHaveBeenCalledTimes(1);
+
+    unbind();
+    form.name = 'Bob';
+    await nextTick();
+    el.dispatchEvent(new FocusEvent('focusout'));
+    expect(mockOnSave).toHaveBeenCalledTimes(1);
+  });
+
+  it('should defer debounced saves to an idle period with the idle trigger', async () => {
+    const form = reactive({ name: 'John' });
+    useAutoSaveForm(form, {
+      onSave: mockOnSave,
+      trigger: 'idle',
+      debounce: 100
+    });
+
+    form.name = 'Jane';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    expect(mockOnSave).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(mockOnSave).toHaveBeenCalledTimes(1);
+  });
+
+  it('should track the version returned by onSave', async () => {
+    const versionedSave = vi.fn()
+      .mockResolvedValueOnce({ version: 'v2' })
+      .mockResolvedValueOnce({ version: 'v3' });
+    const form = reactive({ name: 'John' });
+    const { version, flush } = useAutoSaveForm(form, {
+      onSave: versionedSave,
+      version: 'v1',
+    });
+
+    form.name = 'Jane';
+    await nextTick();
+    await flush();
+
+    expect(versionedSave.mock.calls[0][0].version).toBe('v1');
+    expect(version.value).toBe('v2');
+
+    form.name = 'Bob';
+    await nextTick();
+    await flush();
+
+    expect(versionedSave.mock.calls[1][0].version).toBe('v2');
+    expect(version.value).toBe('v3');
+  });
+
+  it('should merge conflicts into the form and save the result', async () => {
+    const conflictSave = vi.fn()
+      .mockRejectedValueOnce(new AutoSaveConflictError({ title: 'Draft', body: 'Remote body' }, 'v2'))
+      .mockResolvedValue({ version: 'v3' });
+    const form = reactive({ title: 'Draft', body: 'Body' });
+    const { version, isDirty } = useAutoSaveForm(form, {
+      onSave: conflictSave,
+      onError: mockOnError,
+      version: 'v1',
+      debounce: 100
+    });
+
+    form.title = 'Final';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+
+    await vi.waitFor(() => expect(conflictSave).toHaveBeenCalledTimes(2));
+    expect(form).toEqual({ title: 'Final', body: 'Remote body' });
+    expect(conflictSave.mock.calls[1][0]).toMatchObject({
+      version: 'v2',
+      diff: { title: 'Final' },
+    });
+
+    await vi.waitFor(() => expect(version.value).toBe('v3'));
+    expect(isDirty.value).toBe(false);
+    expect(mockOnError).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(100);
+    await nextTick();
+    expect(conflictSave).toHaveBeenCalledTimes(2);
+  });
+
+  it('should leave skipped fields of the server copy out of the next save', async () => {
+    const conflictSave = vi.fn()
+      .mockRejectedValueOnce(new AutoSaveConflictError({ title: 'Remote', updatedAt: 2 }))
+      .mockResolvedValue(undefined);
+    const onConflict = vi.fn((local: Record<string, unknown>) => local);
+    const form = reactive({ title: 'Draft', updatedAt: 1 });
+    useAutoSaveForm(form, {
+      onSave: conflictSave,
+      onConflict,
+      skipFields: ['updatedAt'],
+      debounce: 100
+    });
+
+    form.title = 'Local';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+
+    await vi.waitFor(() => expect(conflictSave).toHaveBeenCalledTimes(2));
+    expect(onConflict).toHaveBeenCalledWith({ title: 'Local' }, { title: 'Remote' }, { title: 'Draft' });
+    expect(conflictSave.mock.calls[1][0]).toMatchObject({
+      diff: { title: 'Local' },
+      changedPaths: ['title'],
+    });
+    expect(form.updatedAt).toBe(2);
+  });
+
+  it('should use onConflict to resolve conflicts', async () => {
+    const conflictSave = vi.fn()
+      .mockRejectedValueOnce(new AutoSaveConflictError({ title: 'Remote' }))
+      .mockResolvedValue(undefined);
+    const onConflict = vi.fn(() => ({ title: 'Merged' }));
+    const form = reactive({ title: 'Draft' });
+    useAutoSaveForm(form, {
+      onSave: conflictSave,
+      onConflict,
+      debounce: 100
+    });
+
+    form.title = 'Local';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+
+    await vi.waitFor(() => expect(conflictSave).toHaveBeenCalledTimes(2));
+    expect(onConflict).toHaveBeenCalledWith({ title: 'Local' }, { title: 'Remote' }, { title: 'Draft' });
+    expect(form.title).toBe('Merged');
+  });
+
+  it('should undo and redo saved snapshots', async () => {
+    const form = reactive({ title: 'One' });
+    const { undo, redo, canUndo, canRedo } = useAutoSaveForm(form, {
+      onSave: mockOnSave,
+      history: true,
+      debounce: 100
+    });
+
+    expect(canUndo.value).toBe(false);
+
+    form.title = 'Two';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    await vi.waitFor(() => expect(canUndo.value).toBe(true));
+
+    undo();
+    await nextTick();
+    expect(form.title).toBe('One');
+    expect(mockOnSave).toHaveBeenCalledTimes(2);
+    expect(mockOnSave.mock.calls[1][0].snapshot).toEqual({ title: 'One' });
+    expect(canUndo.value).toBe(false);
+    expect(canRedo.value).toBe(true);
+
+    // Restoring an entry doesn't schedule another save
+    vi.advanceTimersByTime(100);
+    await nextTick();
+    expect(mockOnSave).toHaveBeenCalledTimes(2);
+
+    redo();
+    await nextTick();
+    expect(form.title).toBe('Two');
+    expect(canRedo.value).toBe(false);
+  });
+
+  it('should drop unsaved changes on undo and discard redo entries after new edits', async () => {
+    const form = reactive({ title: 'One' });
+    const { undo, canUndo, canRedo } = useAutoSaveForm(form, {
+      onSave: mockOnSave,
+      history: { limit: 10 },
+      debounce: 100
+    });
+
+    form.title = 'Two';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    await vi.waitFor(() => expect(canUndo.value).toBe(true));
+
+    form.title = 'Unsaved';
+    await nextTick();
+    undo();
+    await nextTick();
+    expect(form.title).toBe('Two');
+
+    undo();
+    await nextTick();
+    expect(form.title).toBe('One');
+    expect(canRedo.value).toBe(true);
+
+    form.title = 'Three';
+    await nextTick();
+    expect(canRedo.value).toBe(false);
+  });
+
+  it('should record unsaved snapshots and respect the history limit', async () => {
+    const form = reactive({ count: 0 });
+    const { undo, canUndo } = useAutoSaveForm(form, {
+      onSave: mockOnSave,
+      history: { limit: 2, includeUnsaved: true },
+      validate: (snapshot) => (snapshot.count as number) < 2,
+      debounce: 100
+    });
+
+    for (const count of [1, 2, 3]) {
+      form.count = count;
+      await nextTick();
+      vi.advanceTimersByTime(100);
+    }
+
+    undo();
+    await nextTick();
+    expect(form.count).toBe(2);
+    expect(canUndo.value).toBe(false);
+  });
+
+  it('should revert to the last saved snapshot', async () => {
+    const form = reactive({ title: 'Saved' });
+    const { revertToLastSaved, isDirty } = useAutoSaveForm(form, {
+      onSave: mockOnSave,
+      debounce: 100
+    });
+
+    form.title = 'Edited';
+    await nextTick();
+    expect(isDirty.value).toBe(true);
+
+    revertToLastSaved();
+    await nextTick();
+    expect(form.title).toBe('Saved');
+    expect(isDirty.value).toBe(false);
+
+    vi.advanceTimersByTime(100);
+    await nextTick();
+    expect(mockOnSave).not.toHaveBeenCalled();
+  });
+
+  it('should pass a JSON Patch to onSave with jsonPatch', async () => {
+    const form = reactive({ title: 'Draft', tags: ['a'] });
+    useAutoSaveForm(form, {
+      onSave: mockOnSave,
+      jsonPatch: true,
+      debounce: 100
+    });
+
+    form.title = 'Final';
+    form.tags.push('b');
+    await nextTick();
+    vi.advanceTimersByTime(100);
+
+    expect(mockOnSave.mock.calls[0][0].patch).toEqual([
+      { op: 'replace', path: '/title', value: 'Final' },
+      { op: 'add', path: '/tags/1', value: 'b' },
+    ]);
+  });
+
+  it('should apply server patches without saving them again', async () => {
+    const form = reactive({ title: 'Draft', slug: '' });
+    const { applyPatch, isDirty } = useAutoSaveForm(form, {
+      onSave: mockOnSave,
+      debounce: 100
+    });
+
+    applyPatch([{ op: 'replace', path: '/slug', value: 'draft' }]);
+    await nextTick();
+
+    expect(form.slug).toBe('draft');
+    expect(isDirty.value).toBe(false);
+
+    vi.advanceTimersByTime(100);
+    await nextTick();
+    expect(mockOnSave).not.toHaveBeenCalled();
+  });
+
+  it('should leave the form untouched when a server patch fails', async () => {
+    const form = reactive({ a: 1, b: 2 });
+    const { applyPatch, isDirty } = useAutoSaveForm(form, { onSave: mockOnSave, debounce: 100 });
+
+    expect(() => applyPatch([
+      { op: 'replace', path: '/a', value: 9 },
+      { op: 'remove', path: '/missing' },
+    ])).toThrow();
+    await nextTick();
+
+    expect(form).toEqual({ a: 1, b: 2 });
+    expect(isDirty.value).toBe(false);
+  });
+
+  it('should not retry saves rejected as invalid', async () => {
+    const invalidSave = vi.fn().mockRejectedValue(new AutoSaveValidationError({ title: ['Required'] }));
+    const form = reactive({ title: 'Draft' });
+    const { lastError } = useAutoSaveForm(form, {
+      onSave: invalidSave,
+      onError: mockOnError,
+      retry: { attempts: 3, baseDelay: 10, jitter: false },
+      debounce: 100
+    });
+
+    form.title = '';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+
+    await vi.waitFor(() => expect(mockOnError).toHaveBeenCalledTimes(1));
+    vi.advanceTimersByTime(1000);
+    await nextTick();
+    expect(invalidSave).toHaveBeenCalledTimes(1);
+    expect(lastError.value).toBeInstanceOf(AutoSaveValidationError);
+  });
+
+  it('should expose server field errors and clear them per field on change', async () => {
+    const invalidSave = vi.fn()
+      .mockRejectedValueOnce(new AutoSaveValidationError({
+        title: ['Required'],
+        'lines.0.amount': ['Must be positive'],
+      }))
+      .mockResolvedValue(undefined);
+    const form = reactive({ title: 'Draft', lines: [{ amount: 1 }, { amount: 2 }] });
+    const { serverErrors, flush } = useAutoSaveForm(form, {
+      onSave: invalidSave,
+      debounce: 100
+    });
+
+    form.title = '';
+    form.lines[0].amount = -1;
+    await nextTick();
+    vi.advanceTimersByTime(100);
+
+    await vi.waitFor(() => expect(serverErrors.value).toEqual({
+      title: ['Required'],
+      'lines.0.amount': ['Must be positive'],
+    }));
+
+    // The rejected state isn't sent again until it is edited
+    await flush();
+    expect(invalidSave).toHaveBeenCalledTimes(1);
+
+    form.lines[1].amount = 3;
+    await nextTick();
+    expect(Object.keys(serverErrors.value)).toEqual(['title', 'lines.0.amount']);
+
+    form.lines[0].amount = 5;
+    await nextTick();
+    expect(serverErrors.value).toEqual({ title: ['Required'] });
+
+    await flush();
+    expect(invalidSave).toHaveBeenCalledTimes(2);
+    expect(serverErrors.value).toEqual({});
+  });
+
+  it('should read field errors with parseError', async () => {
+    const failingSave = vi.fn().mockRejectedValue({ status: 422, body: { email: 'Taken' } });
+    const form = reactive({ email: 'a@b.c' });
+    const { serverErrors } = useAutoSaveForm(form, {
+      onSave: failingSave,
+      parseError: (err) => (err as { body: Record<string, string> }).body,
+      debounce: 100
+    });
+
+    form.email = 'taken@b.c';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+
+    await vi.waitFor(() => expect(serverErrors.value).toEqual({ email: ['Taken'] }));
+  });
+
+  it('should write server errors to Inertia forms without saving again', async () => {
+    const invalidSave = vi.fn().mockRejectedValue(new AutoSaveValidationError({ title: ['Required'] }));
+    const form = reactive({
+      title: 'Draft',
+      errors: {} as Record<string, string>,
+      setError(errors: Record<string, string>) {
+        Object.assign(this.errors, errors);
+      },
+      clearErrors(...fields: string[]) {
+        for (const field of fields.length ? fields : Object.keys(this.errors)) delete this.errors[field];
+      },
+    });
+    useAutoSaveForm(form, {
+      onSave: invalidSave,
+      debounce: 100
+    });
+
+    form.title = '';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+
+    await vi.waitFor(() => expect(form.errors).toEqual({ title: 'Required' }));
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    await nextTick();
+    expect(invalidSave).toHaveBeenCalledTimes(1);
+
+    form.title = 'Fixed';
+    await nextTick();
+    expect(form.errors).toEqual({});
+  });
+
+  it('should follow a reactive enabled option', async () => {
+    const enabled = ref(false);
+    const form = reactive({ title: 'Draft' });
+    useAutoSaveForm(form, {
+      onSave: mockOnSave,
+      enabled,
+      debounce: 100
+    });
+
+    form.title = 'Edited';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    await nextTick();
+    expect(mockOnSave).not.toHaveBeenCalled();
+
+    enabled.value = true;
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    await nextTick();
+    expect(mockOnSave).toHaveBeenCalledTimes(1);
+  });
+
+  it('should read debounce, skipFields and onSave at runtime', async () => {
+    const delay = ref(1000);
+    const skipFields = ref<string[]>([]);
+    const otherSave = vi.fn();
+    const onSave = ref(mockOnSave);
+    const form = reactive({ title: 'Draft', cursor: 0 });
+    const { isDirty } = useAutoSaveForm(form, {
+      onSave,
+      skipFields,
+      debounce: () => delay.value
+    });
+
+    delay.value = 100;
+    form.title = 'Edited';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    await nextTick();
+    expect(mockOnSave).toHaveBeenCalledTimes(1);
+
+    skipFields.value = ['cursor'];
+    await nextTick();
+    form.cursor = 5;
+    await nextTick();
+    expect(isDirty.value).toBe(false);
+
+    // Tracking a field again doesn't count as a change
+    skipFields.value = [];
+    await nextTick();
+    expect(isDirty.value).toBe(false);
+
+    onSave.value = otherSave;
+    form.title = 'Again';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    await nextTick();
+    expect(otherSave).toHaveBeenCalledTimes(1);
+    expect(otherSave.mock.calls[0][0].snapshot).toEqual({ title: 'Again', cursor: 5 });
+  });
+
+  it('should pause and resume auto-saving', async () => {
+    const form = reactive({ title: 'Draft' });
+    const { pause, resume, isPaused, isDirty, status } = useAutoSaveForm(form, {
+      onSave: mockOnSave,
+      debounce: 100
+    });
+
+    pause();
+    expect(isPaused.value).toBe(true);
+
+    form.title = 'Edited';
+    await nextTick();
+    vi.advanceTimersByTime(1000);
+    await nextTick();
+    expect(mockOnSave).not.toHaveBeenCalled();
+    expect(isDirty.value).toBe(true);
+    expect(status.value).toBe('dirty');
+
+    resume();
+    expect(status.value).toBe('pending');
+    vi.advanceTimersByTime(100);
+    await nextTick();
+    expect(mockOnSave).toHaveBeenCalledTimes(1);
+  });
+
+  it('should cancel the blockWatcher timer on unblockWatcher', async () => {
+    const form = reactive({ title: 'Draft' });
+    const { blockWatcher, unblockWatcher } = useAutoSaveForm(form, {
+      onSave: mockOnSave,
+      debounce: 100
+    });
+
+    blockWatcher(500);
+    unblockWatcher(100);
+    blockWatcher(5000);
+    vi.advanceTimersByTime(500);
+
+    // The first block's timer must not end the second block early
+    form.title = 'Edited';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    await nextTick();
+    expect(mockOnSave).not.toHaveBeenCalled();
+  });
+
+  it('should defer saves over the rate limit and save the latest changes', async () => {
+    const form = reactive({ title: 'Draft' });
+    const { isRateLimited, status } = useAutoSaveForm(form, {
+      onSave: mockOnSave,
+      rateLimit: { limit: 2, window: 1000 },
+      debounce: 100
+    });
+
+    for (const title of ['One', 'Two', 'Three']) {
+      form.title = title;
+      await nextTick();
+      vi.advanceTimersByTime(100);
+      await nextTick();
+    }
+    expect(mockOnSave).toHaveBeenCalledTimes(2);
+    expect(isRateLimited.value).toBe(true);
+    expect(status.value).toBe('pending');
+
+    form.title = 'Four';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    await nextTick();
+    expect(mockOnSave).toHaveBeenCalledTimes(2);
+
+    // A save is refilled every 500ms, the deferred save goes out at 600ms
+    vi.advanceTimersByTime(199);
+    await nextTick();
+    expect(mockOnSave).toHaveBeenCalledTimes(2);
+    vi.advanceTimersByTime(1);
+    await nextTick();
+    expect(mockOnSave).toHaveBeenCalledTimes(3);
+    expect(mockOnSave.mock.calls[2][0].snapshot).toEqual({ title: 'Four' });
+    expect(isRateLimited.value).toBe(false);
+  });
+
+  it('should let flush() skip the rate limit', async () => {
+    const form = reactive({ title: 'Draft' });
+    const { flush, isRateLimited } = useAutoSaveForm(form, {
+      onSave: mockOnSave,
+      rateLimit: { limit: 1, window: 60000 },
+      debounce: 100
+    });
+
+    form.title = 'One';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    await nextTick();
+    form.title = 'Two';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    await nextTick();
+    expect(mockOnSave).toHaveBeenCalledTimes(1);
+    expect(isRateLimited.value).toBe(true);
+
+    await flush();
+    expect(mockOnSave).toHaveBeenCalledTimes(2);
+    expect(mockOnSave.mock.calls[1][0].snapshot).toEqual({ title: 'Two' });
+    expect(isRateLimited.value).toBe(false);
+  });
+
+  it('should count retries against the rate limit', async () => {
+    const flakySave = vi.fn()
+      .mockRejectedValueOnce(new Error('Network'))
+      .mockResolvedValue(undefined);
+    const form = reactive({ title: 'Draft' });
+    const { isRateLimited } = useAutoSaveForm(form, {
+      onSave: flakySave,
+      rateLimit: { limit: 2, window: 1000 },
+      retry: { attempts: 2, baseDelay: 10, jitter: false },
+      debounce: 100
+    });
+
+    form.title = 'One';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    await vi.advanceTimersByTimeAsync(10);
+    expect(flakySave).toHaveBeenCalledTimes(2);
+
+    // Both tokens went to the save and its retry
+    form.title = 'Two';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    await nextTick();
+    expect(flakySave).toHaveBeenCalledTimes(2);
+    expect(isRateLimited.value).toBe(true);
+  });
+
+  it('should wait for Retry-After before retrying', async () => {
+    const limitedSave = vi.fn()
+      .mockRejectedValueOnce(new AutoSaveHttpError(429, null, { 'retry-after': '2' }))
+      .mockResolvedValue(undefined);
+    const form = reactive({ title: 'Draft' });
+    useAutoSaveForm(form, {
+      onSave: limitedSave,
+      onAfterSave: mockOnAfterSave,
+      retry: { attempts: 2, baseDelay: 100, jitter: false },
+      debounce: 100
+    });
+
+    form.title = 'Edited';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    await vi.waitFor(() => expect(limitedSave).toHaveBeenCalledTimes(1));
+
+    await vi.advanceTimersByTimeAsync(1900);
+    expect(limitedSave).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(limitedSave).toHaveBeenCalledTimes(2);
+    expect(mockOnAfterSave).toHaveBeenCalledTimes(1);
+  });
+
+  it('should hold new saves until Retry-After has passed', async () => {
+    const limitedSave = vi.fn()
+      .mockRejectedValueOnce({ response: { status: 429, headers: { 'retry-after': '1' } } })
+      .mockResolvedValue(undefined);
+    const form = reactive({ title: 'Draft' });
+    const { flush } = useAutoSaveForm(form, {
+      onSave: limitedSave,
+      onError: mockOnError,
+      debounce: 100
+    });
+
+    form.title = 'Edited';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    await vi.waitFor(() => expect(mockOnError).toHaveBeenCalledTimes(1));
+
+    form.title = 'Edited again';
+    await nextTick();
+    const flushed = flush();
+    await vi.advanceTimersByTimeAsync(500);
+    expect(limitedSave).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(500);
+    await flushed;
+    expect(limitedSave).toHaveBeenCalledTimes(2);
+    expect(limitedSave.mock.calls[1][0].snapshot).toEqual({ title: 'Edited again' });
+  });
+
+  it('should emit typed events through on()', async () => {
+    const failingSave = vi.fn()
+      .mockRejectedValueOnce(new Error('Network'))
+      .mockResolvedValue({ version: 2 });
+    const form = reactive({ title: 'Draft' });
+    const { on, blockWatcher } = useAutoSaveForm(form, {
+      onSave: failingSave,
+      retry: { attempts: 2, baseDelay: 100, jitter: false },
+      debounce: 100
+    });
+    const events: string[] = [];
+    on('change', ({ changedPaths }) => events.push(`change ${changedPaths.join()}`));
+    on('save:start', ({ attempt, context }) => events.push(`start ${attempt} ${context.diff.title}`));
+    on('save:error', ({ retryIn }) => events.push(`error ${retryIn}`));
+    on('save:success', ({ version }) => events.push(`success ${version}`));
+    on('skip', ({ reason }) => events.push(`skip ${reason}`));
+    const stopBlocked = on('blocked', ({ reason, ms }) => events.push(`blocked ${reason} ${ms}`));
+
+    form.title = 'Edited';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    await vi.waitFor(() => expect(failingSave).toHaveBeenCalledTimes(1));
+    await vi.advanceTimersByTimeAsync(100);
+    await vi.waitFor(() => expect(events).toContain('success 2'));
+
+    blockWatcher(500);
+    stopBlocked();
+    blockWatcher(500);
+
+    expect(events).toEqual([
+      'change title',
+      'start 1 Edited',
+      'error 100',
+      'start 2 Edited',
+      'success 2',
+      'blocked watcher 500',
+    ]);
+  });
+
+  it('should report skipped saves', async () => {
+    const form = reactive({ title: 'Draft' });
+    const { on, flush, pause } = useAutoSaveForm(form, {
+      onSave: mockOnSave,
+      validate: (snapshot) => (snapshot.title ? true : { title: 'Required' }),
+      debounce: 100
+    });
+    const onSkip = vi.fn();
+    on('skip', onSkip);
+
+    await flush();
+    expect(onSkip).toHaveBeenLastCalledWith({ reason: 'unchanged' });
+
+    form.title = '';
+    await nextTick();
+    await flush();
+    expect(onSkip).toHaveBeenLastCalledWith({ reason: 'invalid', errors: { title: ['Required'] } });
+
+    pause();
+    await flush();
+    expect(onSkip).toHaveBeenLastCalledWith({ reason: 'paused' });
+    expect(mockOnSave).not.toHaveBeenCalled();
+  });
+
+
+  it('should send logs of logLevel and above to a custom logger', async () => {
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const failingSave = vi.fn()
+      .mockRejectedValueOnce(new Error('Network'))
+      .mockResolvedValue(undefined);
+    const form = reactive({ title: 'Draft' });
+    useAutoSaveForm(form, {
+      onSave: failingSave,
+      logger,
+      logLevel: 'warn',
+      retry: { attempts: 2, baseDelay: 100, jitter: false },
+      debounce: 100
+    });
+
+    form.title = 'Edited';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    await vi.advanceTimersByTimeAsync(100);
+    await vi.waitFor(() => expect(failingSave).toHaveBeenCalledTimes(2));
+
+    expect(logger.warn).toHaveBeenCalledWith('Save failed, retrying in 100ms:', new Error('Network'));
+    expect(logger.debug).not.toHaveBeenCalled();
+    expect(logger.info).not.toHaveBeenCalled();
+    expect(logger.error).not.toHaveBeenCalled();
+  });
+
+  it('should log debug messages to the logger when debug is true', async () => {
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const form = reactive({ title: 'Draft' });
+    useAutoSaveForm(form, { onSave: mockOnSave, logger, debug: true, debounce: 100 });
+
+    form.title = 'Edited';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    await vi.waitFor(() => expect(logger.info).toHaveBeenCalledWith('Save successful.'));
+    expect(logger.debug).toHaveBeenCalledWith('Detected changes. Saving...');
+  });
+
+  it('should pass errors of event handlers to the logger', async () => {
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const form = reactive({ title: 'Draft' });
+    const { on } = useAutoSaveForm(form, { onSave: mockOnSave, logger, debounce: 100 });
+    const failure = new Error('Handler bug');
+    on('change', () => {
+      throw failure;
+    });
+
+    form.title = 'Edited';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    await vi.waitFor(() => expect(mockOnSave).toHaveBeenCalledTimes(1));
+
+    expect(logger.error).toHaveBeenCalledWith('A "change" event handler threw:', failure);
+    expect(consoleSpy).not.toHaveBeenCalled();
+    consoleSpy.mockRestore();
+  });
+
+  it('should report metrics for every settled save', async () => {
+    const metrics = vi.fn();
+    const flakySave = vi.fn()
+      .mockRejectedValueOnce(new Error('Network'))
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValue(new Error('Down'));
+    const form = reactive({ title: 'Draft', tags: ['a'] });
+    useAutoSaveForm(form, {
+      onSave: flakySave,
+      metrics,
+      retry: { attempts: 2, baseDelay: 100, jitter: false },
+      debounce: 100
+    });
+
+    form.title = 'Édité';
+    form.tags.push('b');
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    await vi.advanceTimersByTimeAsync(100);
+    await vi.waitFor(() => expect(metrics).toHaveBeenCalledTimes(1));
+
+    expect(metrics).toHaveBeenCalledWith({
+      outcome: 'success',
+      duration: 100,
+      bytes: new TextEncoder().encode(JSON.stringify({ title: 'Édité', tags: ['a', 'b'] })).length,
+      changedFields: 2,
+      retries: 1,
+    });
+
+    form.title = 'Again';
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    await vi.advanceTimersByTimeAsync(100);
+    await vi.waitFor(() => expect(metrics).toHaveBeenCalledTimes(2));
+
+    expect(metrics.mock.calls[1][0]).toMatchObject({
+      outcome: 'error',
+      changedFields: 1,
+      retries: 1,
+      error: new Error('Down'),
+    });
+  });
+
+
 }); 
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  toValidationErrors,
+  zodValidator,
+  veeValidateValidator,
+  vuelidateValidator,
+} from '../src/validators';
+
+const context = { changedPaths: [], previous: null };
+
+describe('toValidationErrors', () => {
+  it('should normalize validation results', () => {
+    expect(toValidationErrors(true)).toBeNull();
+    expect(toValidationErrors(undefined)).toBeNull();
+    expect(toValidationErrors({ name: undefined })).toBeNull();
+    expect(toValidationErrors(false)).toEqual({});
+    expect(toValidationErrors({ name: 'Required', tags: ['Too many'] })).toEqual({
+      name: ['Required'],
+      tags: ['Too many'],
+    });
+  });
+});
+
+describe('zodValidator', () => {
+  it('should map issues to field paths', async () => {
+    const schema = {
+      safeParse: () => ({
+        success: false,
+        error: {
+          issues: [
+            { path: ['lines', 0, 'amount'], message: 'Too small' },
+            { path: ['email'], message: 'Invalid email' },
+          ],
+        },
+      }),
+    };
+
+    await expect(zodValidator(schema)({}, context)).resolves.toEqual({
+      'lines[0].amount': ['Too small'],
+      email: ['Invalid email'],
+    });
+  });
+
+  it('should prefer safeParseAsync', async () => {
+    const schema = { safeParse: vi.fn(), safeParseAsync: vi.fn().mockResolvedValue({ success: true }) };
+
+    await expect(zodValidator(schema)({}, context)).resolves.toBe(true);
+    expect(schema.safeParse).not.toHaveBeenCalled();
+  });
+});
+
+describe('veeValidateValidator', () => {
+  it('should return the vee-validate errors when invalid', async () => {
+    const form = { validate: vi.fn().mockResolvedValue({ valid: false, errors: { name: 'Required' } }) };
+
+    await expect(veeValidateValidator(form)({}, context)).resolves.toEqual({ name: 'Required' });
+  });
+});
+
+describe('vuelidateValidator', () => {
+  it('should map $errors by property path', async () => {
+    const v$ = {
+      $validate: vi.fn().mockResolvedValue(false),
+      $errors: [{ $property: 'city', $propertyPath: 'address.city', $message: 'Required' }],
+    };
+
+    await expect(vuelidateValidator(v$)({}, context)).resolves.toEqual({ 'address.city': ['Required'] });
+  });
+});